@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+/**
+ * Executable of the krn command-line tool. See ./cli.ts for the commands.
+ */
+
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { runCLI } from "./cli.js";
+
+/** Read the lines of a stream, with \n or \r\n line endings. */
+function lines(input: Readable): AsyncIterable<string> {
+  return createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+}
+
+runCLI(process.argv.slice(2), {
+  stdout: (line) => process.stdout.write(`${line}\n`),
+  stderr: (line) => process.stderr.write(`${line}\n`),
+  stdin: () => lines(process.stdin),
+  readLines: (path) => lines(createReadStream(path)),
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    process.stderr.write(
+      `krn: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+import { type CLIIO, runCLI } from "./cli.js";
+
+const iso = "//kopexa.com/frameworks/iso27001";
+
+async function* lines(values: string[]): AsyncIterable<string> {
+  yield* values;
+}
+
+/** Run the CLI with in-memory stdin and files. */
+async function run(
+  argv: string[],
+  stdin: string[] = [],
+  files: Record<string, string[]> = {},
+): Promise<{ code: number; stdout: string[]; stderr: string[] }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CLIIO = {
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+    stdin: () => lines(stdin),
+    readLines: (path) => {
+      const content = files[path];
+      if (!content) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return lines(content);
+    },
+  };
+  const code = await runCLI(argv, io);
+  return { code, stdout, stderr };
+}
+
+describe("krn CLI", () => {
+  describe("parse", () => {
+    it("prints the components as JSON", async () => {
+      const { code, stdout } = await run(["parse", `${iso}/controls/5.1@v2`]);
+      expect(code).toBe(0);
+      expect(stdout.map((line) => JSON.parse(line))).toEqual([
+        {
+          krn: `${iso}/controls/5.1@v2`,
+          service: "",
+          segments: [
+            { collection: "frameworks", resourceId: "iso27001" },
+            { collection: "controls", resourceId: "5.1" },
+          ],
+          version: "v2",
+        },
+      ]);
+    });
+
+    it("reads stdin and reports invalid KRNs", async () => {
+      const { code, stdout, stderr } = await run(["parse"], [iso, "invalid"]);
+      expect(code).toBe(1);
+      expect(stdout).toHaveLength(1);
+      expect(stderr).toEqual(["invalid: must start with //"]);
+    });
+  });
+
+  describe("validate", () => {
+    it("checks stdin line by line", async () => {
+      const { code, stderr } = await run(["validate"], [iso, "", `${iso}@v1`]);
+      expect(code).toBe(0);
+      expect(stderr).toEqual([]);
+    });
+
+    it("reports invalid lines with their position", async () => {
+      const { code, stdout, stderr } = await run(
+        ["validate", "a.txt", "-"],
+        ["//kopexa.com/frameworks"],
+        { "a.txt": [iso, "//example.com/a/b"] },
+      );
+      expect(code).toBe(1);
+      expect(stdout).toEqual([]);
+      expect(stderr).toEqual([
+        "a.txt:2: expected kopexa.com or {service}.kopexa.com, got example.com",
+        "<stdin>:1: must have at least domain/collection/id",
+      ]);
+    });
+  });
+
+  describe("build", () => {
+    it("builds a KRN from its components", async () => {
+      const { code, stdout } = await run([
+        "build",
+        "--service",
+        "catalog",
+        "--resource",
+        "frameworks=iso27001",
+        "--resource=controls=5.1.1",
+        "--version=v2",
+      ]);
+      expect(code).toBe(0);
+      expect(stdout).toEqual([
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+      ]);
+    });
+
+    it("reports invalid components", async () => {
+      const { code, stderr } = await run([
+        "build",
+        "--resource",
+        "frameworks=iso 27001",
+      ]);
+      expect(code).toBe(1);
+      expect(stderr).toEqual(["invalid resource ID: iso 27001"]);
+    });
+
+    it("rejects invalid arguments", async () => {
+      for (const argv of [
+        ["build"],
+        ["build", "--resource", "frameworks"],
+        ["build", "--resource"],
+        ["build", "--resource", "a=b", "--version", "v1", "--version", "v2"],
+        ["build", "--resource", "a=b", "extra"],
+        ["build", "--resource", "a=b", "--unknown"],
+      ]) {
+        const { code, stderr } = await run(argv);
+        expect(code).toBe(2);
+        expect(stderr[0]).toMatch(/^krn: /);
+      }
+    });
+  });
+
+  describe("normalize", () => {
+    it("repairs user input", async () => {
+      const { code, stdout } = await run(
+        ["normalize"],
+        [" https://Kopexa.com/frameworks/iso27001/", "krn:kopexa.com/a/b"],
+      );
+      expect(code).toBe(0);
+      expect(stdout).toEqual([iso, "//kopexa.com/a/b"]);
+    });
+
+    it("disables fixes", async () => {
+      const { code, stdout, stderr } = await run([
+        "normalize",
+        "--no-trailingSlash",
+        `${iso}/`,
+        ` ${iso}`,
+      ]);
+      expect(code).toBe(1);
+      expect(stdout).toEqual([iso]);
+      expect(stderr).toHaveLength(1);
+    });
+  });
+
+  describe("safe-id", () => {
+    it("converts strings to resource IDs", async () => {
+      const { code, stdout } = await run(["safe-id", "ISO 27001:2022"]);
+      expect(code).toBe(0);
+      expect(stdout).toEqual(["ISO-27001-2022"]);
+    });
+
+    it("reports strings without valid characters", async () => {
+      const { code, stdout, stderr } = await run(["safe-id"], ["a b", "!!"]);
+      expect(code).toBe(1);
+      expect(stdout).toEqual(["a-b"]);
+      expect(stderr).toEqual(["!!: no valid resource ID characters"]);
+    });
+  });
+
+  describe("lint", () => {
+    const csv = ["id,krn", `1,${iso}`, "2,invalid", `3,${iso}`];
+
+    it("prints a text report", async () => {
+      const { code, stdout } = await run(
+        ["lint", "--field", "krn", "--unique", "krn", "controls.csv"],
+        [],
+        { "controls.csv": csv },
+      );
+      expect(code).toBe(1);
+      expect(stdout).toEqual([
+        [
+          "INVALID_KRN (1)",
+          "  controls.csv:3:3 krn: must start with //",
+          "DUPLICATE (1)",
+          "  controls.csv:4:3 krn: duplicate of line 2, column 3",
+          "3 KRNs checked, 1 valid, 2 issues",
+        ].join("\n"),
+      ]);
+    });
+
+    it("prints a JSON report", async () => {
+      const { code, stdout } = await run(
+        [
+          "lint",
+          "--format=ndjson",
+          "--field=krn",
+          "--require-version",
+          "--service=catalog",
+          "--json",
+        ],
+        [`{"krn": "${iso}@v1"}`, `{"krn": "${iso}"}`],
+      );
+      expect(code).toBe(1);
+      const report = JSON.parse(stdout[0] ?? "");
+      expect(report.source).toBe("<stdin>");
+      expect(report.checked).toBe(2);
+      expect(Object.keys(report.issues)).toEqual([
+        "UNKNOWN_SERVICE",
+        "UNVERSIONED",
+      ]);
+    });
+
+    it("exits 0 without issues", async () => {
+      const { code } = await run(
+        ["lint", "--field", "*.krn", "--allow-empty", "a.json"],
+        [],
+        { "a.json": [`[{"krn": "${iso}"}, {"krn": null}]`] },
+      );
+      expect(code).toBe(0);
+    });
+
+    it("rejects invalid arguments", async () => {
+      for (const argv of [
+        ["lint", "a.csv"],
+        ["lint", "--field", "krn"],
+        ["lint", "--field", "krn", "a.txt"],
+        ["lint", "--field", "krn", "--format", "xml"],
+      ]) {
+        const { code } = await run(argv, [], { "a.csv": csv, "a.txt": csv });
+        expect(code).toBe(2);
+      }
+    });
+  });
+
+  it("prints usage", async () => {
+    const help = await run(["help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout[0]).toMatch(/^Usage: krn/);
+
+    const missing = await run([]);
+    expect(missing.code).toBe(2);
+    expect(missing.stderr[0]).toMatch(/^Usage: krn/);
+
+    const unknown = await run(["frobnicate"]);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr[0]).toBe("krn: unknown command: frobnicate");
+  });
+
+  describe("--domain", () => {
+    const test = "//kopexa.test/frameworks/iso27001";
+
+    it("parses and validates KRNs under another domain", async () => {
+      const parsed = await run(["parse", "--domain", "kopexa.test", test]);
+      expect(parsed.code).toBe(0);
+      expect(JSON.parse(parsed.stdout[0] ?? "")).toMatchObject({
+        krn: test,
+        domain: "kopexa.test",
+      });
+      expect(
+        (await run(["validate", "--domain=kopexa.test"], [test])).code,
+      ).toBe(0);
+      expect((await run(["validate"], [test])).code).toBe(1);
+    });
+
+    it("builds and normalizes KRNs under another domain", async () => {
+      const built = await run([
+        "build",
+        "--domain",
+        "kopexa.test",
+        "--resource",
+        "frameworks=iso27001",
+      ]);
+      expect(built.stdout).toEqual([test]);
+      const normalized = await run(
+        ["normalize", "--domain", "kopexa.test"],
+        [" //KOPEXA.test/frameworks/iso27001/ "],
+      );
+      expect(normalized.stdout).toEqual([test]);
+    });
+
+    it("lints KRNs under another domain", async () => {
+      const argv = ["lint", "--field", "ref", "--format", "ndjson"];
+      const input = [`{"ref":"${test}"}`];
+      expect(
+        (await run([...argv, "--domain", "kopexa.test"], input)).code,
+      ).toBe(0);
+      expect((await run(argv, input)).code).toBe(1);
+    });
+
+    it("rejects invalid domains", async () => {
+      const { code, stderr } = await run(["parse", "--domain", "Kopexa", iso]);
+      expect(code).toBe(2);
+      expect(stderr[0]).toBe("krn: invalid domain: Kopexa");
+    });
+  });
+});
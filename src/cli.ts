@@ -0,0 +1,417 @@
+/**
+ * krn command-line tool - parse, validate, build and normalize KRNs in
+ * shell pipelines.
+ *
+ * Usage:
+ *   krn parse [krn...]             print the components of KRNs as JSON
+ *   krn validate [file...]         check one KRN per line of files or stdin
+ *   krn build --resource coll=id [--resource coll=id]... [--service s] [--version v]
+ *   krn normalize [--no-<fix>]... [input...]
+ *   krn safe-id [string...]
+ *   krn lint --field f [--field f]... [--format csv|json|ndjson] [--json] [file...]
+ *
+ * All commands but safe-id take --domain to use another base domain than
+ * kopexa.com.
+ *
+ * Commands without arguments read one value per line from stdin. Output is
+ * written one value per line, errors go to stderr. The exit code is 0 on
+ * success, 1 if any input is invalid and 2 for usage errors.
+ *
+ * The I/O is passed in, so the commands can be run without a process;
+ * see ./bin.ts for the executable.
+ */
+
+import {
+  isValidDomain,
+  KRN,
+  KRNBuilder,
+  type KRNNormalizeFix,
+  type KRNNormalizeOptions,
+  type KRNParseOptions,
+  safeResourceId,
+} from "./krn.js";
+import {
+  formatLintReport,
+  type KRNLintFormat,
+  type KRNLintOptions,
+  lintKRNs,
+} from "./lint.js";
+
+/** Input and output of the CLI */
+export interface CLIIO {
+  /** Write a line to stdout */
+  stdout: (line: string) => void;
+  /** Write a line to stderr */
+  stderr: (line: string) => void;
+  /** Read the lines of stdin */
+  stdin: () => AsyncIterable<string>;
+  /** Read the lines of a file */
+  readLines: (path: string) => AsyncIterable<string>;
+}
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+/** Fixes of KRN.normalize, each disabled by --no-<fix> */
+const FIXES: readonly KRNNormalizeFix[] = [
+  "whitespace",
+  "scheme",
+  "prefix",
+  "domainCase",
+  "trailingSlash",
+];
+
+const USAGE = `Usage: krn <command> [options] [arguments]
+
+Commands:
+  parse [krn...]        Print the components of KRNs as JSON, one per line
+  validate [file...]    Check one KRN per line, exit 1 if any is invalid
+  build                 Build a KRN from its components
+    --resource coll=id    Collection and resource ID, repeatable
+    --service <name>      Service name
+    --version <version>   Version
+  normalize [input...]  Repair user-supplied KRNs
+    --no-<fix>            Disable a fix: ${FIXES.join(", ")}
+  safe-id [string...]   Convert strings to valid resource IDs
+  lint [file...]        Check the KRNs in CSV, JSON or NDJSON files
+    --field <name>        CSV column or JSON path of KRNs, repeatable
+    --format <format>     csv, json or ndjson, by default from the extension
+    --unique <name>       Field whose KRNs must be unique, repeatable
+    --service <name>      Known service, repeatable ("" for none)
+    --require-version     Report KRNs without version
+    --allow-empty         Skip empty values
+    --delimiter <char>    Delimiter of CSV cells
+    --json                Print the report as JSON
+  help                  Show this help
+
+Options:
+  --domain <domain>     Base domain of the KRNs, by default kopexa.com
+                        (all commands but safe-id)
+
+Commands without arguments read one value per line from stdin.`;
+
+/** Lint formats by file extension */
+const LINT_FORMATS: Record<string, KRNLintFormat> = {
+  csv: "csv",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+};
+
+/** Thrown for invalid command-line arguments */
+class UsageError extends Error {}
+
+/** Parsed command-line arguments */
+interface Args {
+  /** Values of --name value or --name=value options */
+  options: Map<string, string[]>;
+  /** --name options without value */
+  flags: Set<string>;
+  positional: string[];
+}
+
+/**
+ * Split arguments into options and positional arguments. Options that take
+ * a value are listed in valued; all others are flags. -- ends the options.
+ */
+function parseArgs(argv: string[], valued: string[], flags: string[]): Args {
+  const args: Args = { options: new Map(), flags: new Set(), positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+    if (arg === "--") {
+      args.positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      args.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = arg.slice(2, eq === -1 ? undefined : eq);
+    if (valued.includes(name)) {
+      const value = eq === -1 ? argv[++i] : arg.slice(eq + 1);
+      if (value === undefined) {
+        throw new UsageError(`missing value for --${name}`);
+      }
+      args.options.set(name, [...(args.options.get(name) ?? []), value]);
+    } else if (flags.includes(name) && eq === -1) {
+      args.flags.add(name);
+    } else {
+      throw new UsageError(`unknown option: ${arg}`);
+    }
+  }
+  return args;
+}
+
+/** Get the single value of an option, or undefined if not set. */
+function single(args: Args, name: string): string | undefined {
+  const values = args.options.get(name) ?? [];
+  if (values.length > 1) {
+    throw new UsageError(`--${name} given more than once`);
+  }
+  return values[0];
+}
+
+/** Get the parse options of the --domain option. */
+function parseOptions(args: Args): KRNParseOptions {
+  const domain = single(args, "domain");
+  if (domain === undefined) {
+    return {};
+  }
+  if (!isValidDomain(domain)) {
+    throw new UsageError(`invalid domain: ${domain}`);
+  }
+  return { domain };
+}
+
+/** Iterate over the positional arguments, or the lines of stdin if none. */
+async function* inputs(args: Args, io: CLIIO): AsyncIterable<string> {
+  if (args.positional.length > 0) {
+    yield* args.positional;
+  } else {
+    yield* io.stdin();
+  }
+}
+
+/** Get the message of an error. */
+function message(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function parseCommand(args: Args, io: CLIIO): Promise<number> {
+  const options = parseOptions(args);
+  let code = EXIT_OK;
+  for await (const input of inputs(args, io)) {
+    try {
+      const k = KRN.parse(input, options);
+      io.stdout(JSON.stringify({ krn: k.toString(), ...k.toObject() }));
+    } catch (err) {
+      io.stderr(`${input}: ${message(err)}`);
+      code = EXIT_INVALID;
+    }
+  }
+  return code;
+}
+
+async function validateCommand(args: Args, io: CLIIO): Promise<number> {
+  const options = parseOptions(args);
+  const sources = args.positional.length > 0 ? args.positional : ["-"];
+  let code = EXIT_OK;
+  for (const source of sources) {
+    const name = source === "-" ? "<stdin>" : source;
+    let line = 0;
+    for await (const input of source === "-"
+      ? io.stdin()
+      : io.readLines(source)) {
+      line++;
+      // Blank lines are allowed, e.g. at the end of files
+      if (!input.trim()) {
+        continue;
+      }
+      try {
+        KRN.parse(input, options);
+      } catch (err) {
+        io.stderr(`${name}:${line}: ${message(err)}`);
+        code = EXIT_INVALID;
+      }
+    }
+  }
+  return code;
+}
+
+function buildCommand(args: Args, io: CLIIO): number {
+  if (args.positional.length > 0) {
+    throw new UsageError(`unexpected argument: ${args.positional[0]}`);
+  }
+  const resources = args.options.get("resource") ?? [];
+  if (resources.length === 0) {
+    throw new UsageError("missing --resource");
+  }
+
+  const builder = new KRNBuilder(parseOptions(args));
+  const service = single(args, "service");
+  if (service !== undefined) {
+    builder.service(service);
+  }
+  for (const resource of resources) {
+    const eq = resource.indexOf("=");
+    if (eq === -1) {
+      throw new UsageError(`expected --resource coll=id, got ${resource}`);
+    }
+    builder.resource(resource.slice(0, eq), resource.slice(eq + 1));
+  }
+  const version = single(args, "version");
+  if (version !== undefined) {
+    builder.version(version);
+  }
+
+  try {
+    io.stdout(builder.build().toString());
+    return EXIT_OK;
+  } catch (err) {
+    io.stderr(message(err));
+    return EXIT_INVALID;
+  }
+}
+
+async function normalizeCommand(args: Args, io: CLIIO): Promise<number> {
+  const options: KRNNormalizeOptions & KRNParseOptions = parseOptions(args);
+  for (const fix of FIXES) {
+    if (args.flags.has(`no-${fix}`)) {
+      options[fix] = false;
+    }
+  }
+  let code = EXIT_OK;
+  for await (const input of inputs(args, io)) {
+    try {
+      io.stdout(KRN.normalize(input, options).krn.toString());
+    } catch (err) {
+      io.stderr(`${input}: ${message(err)}`);
+      code = EXIT_INVALID;
+    }
+  }
+  return code;
+}
+
+async function safeIdCommand(args: Args, io: CLIIO): Promise<number> {
+  let code = EXIT_OK;
+  for await (const input of inputs(args, io)) {
+    const id = safeResourceId(input);
+    if (id) {
+      io.stdout(id);
+    } else {
+      io.stderr(`${input}: no valid resource ID characters`);
+      code = EXIT_INVALID;
+    }
+  }
+  return code;
+}
+
+async function lintCommand(args: Args, io: CLIIO): Promise<number> {
+  const fields = args.options.get("field") ?? [];
+  if (fields.length === 0) {
+    throw new UsageError("missing --field");
+  }
+  const format = single(args, "format");
+  if (
+    format !== undefined &&
+    !Object.values(LINT_FORMATS).includes(format as KRNLintFormat)
+  ) {
+    throw new UsageError(`unknown format: ${format}`);
+  }
+
+  const parse = parseOptions(args);
+  const sources = args.positional.length > 0 ? args.positional : ["-"];
+  let code = EXIT_OK;
+  for (const source of sources) {
+    const name = source === "-" ? "<stdin>" : source;
+    const extension = source.slice(source.lastIndexOf(".") + 1).toLowerCase();
+    const sourceFormat = (format ?? LINT_FORMATS[extension]) as
+      | KRNLintFormat
+      | undefined;
+    if (!sourceFormat) {
+      throw new UsageError(`missing --format for ${name}`);
+    }
+
+    const options: KRNLintOptions = {
+      format: sourceFormat,
+      fields,
+      parseOptions: parse,
+    };
+    const unique = args.options.get("unique");
+    if (unique) {
+      options.unique = unique;
+    }
+    const services = args.options.get("service");
+    if (services) {
+      options.services = services;
+    }
+    const delimiter = single(args, "delimiter");
+    if (delimiter !== undefined) {
+      options.delimiter = delimiter;
+    }
+    if (args.flags.has("require-version")) {
+      options.requireVersion = true;
+    }
+    if (args.flags.has("allow-empty")) {
+      options.allowEmpty = true;
+    }
+
+    const lines: string[] = [];
+    for await (const line of source === "-"
+      ? io.stdin()
+      : io.readLines(source)) {
+      lines.push(line);
+    }
+    const report = lintKRNs(lines.join("\n"), options);
+    io.stdout(
+      args.flags.has("json")
+        ? JSON.stringify({ source: name, ...report })
+        : formatLintReport(report, name),
+    );
+    if (Object.keys(report.issues).length > 0) {
+      code = EXIT_INVALID;
+    }
+  }
+  return code;
+}
+
+/**
+ * Run the CLI with the arguments after the program name.
+ * Returns the exit code.
+ */
+export async function runCLI(argv: string[], io: CLIIO): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    switch (command) {
+      case "parse":
+        return await parseCommand(parseArgs(rest, ["domain"], []), io);
+      case "validate":
+        return await validateCommand(parseArgs(rest, ["domain"], []), io);
+      case "build":
+        return buildCommand(
+          parseArgs(rest, ["service", "resource", "version", "domain"], []),
+          io,
+        );
+      case "normalize":
+        return await normalizeCommand(
+          parseArgs(
+            rest,
+            ["domain"],
+            FIXES.map((fix) => `no-${fix}`),
+          ),
+          io,
+        );
+      case "safe-id":
+        return await safeIdCommand(parseArgs(rest, [], []), io);
+      case "lint":
+        return await lintCommand(
+          parseArgs(
+            rest,
+            ["field", "format", "unique", "service", "delimiter", "domain"],
+            ["require-version", "allow-empty", "json"],
+          ),
+          io,
+        );
+      case "help":
+      case "--help":
+      case "-h":
+        io.stdout(USAGE);
+        return EXIT_OK;
+      case undefined:
+        io.stderr(USAGE);
+        return EXIT_USAGE;
+      default:
+        throw new UsageError(`unknown command: ${command}`);
+    }
+  } catch (err) {
+    if (err instanceof UsageError) {
+      io.stderr(`krn: ${err.message}`);
+      io.stderr("Run 'krn help' for usage.");
+      return EXIT_USAGE;
+    }
+    throw err;
+  }
+}
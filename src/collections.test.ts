@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { KRN, KRNError, KRNMap, KRNSet } from "./index.js";
+
+const iso = "//catalog.kopexa.com/frameworks/iso27001";
+const nist = "//catalog.kopexa.com/frameworks/nist-csf";
+const soc2 = "//catalog.kopexa.com/frameworks/soc2";
+
+describe("KRNSet", () => {
+  it("compares KRNs by canonical form", () => {
+    const set = new KRNSet([KRN.parse(iso)]);
+    expect(set.has(KRN.parse(iso))).toBe(true);
+    expect(set.has(iso)).toBe(true);
+    expect(set.has(`${iso}@v1`)).toBe(false);
+    set.add(iso);
+    expect(set.size).toBe(1);
+  });
+
+  it("keeps the first KRN added", () => {
+    const first = KRN.parse(iso);
+    const set = new KRNSet([first, KRN.parse(iso)]);
+    expect(set.get(iso)).toBe(first);
+    expect([...set]).toEqual([first]);
+  });
+
+  it("ignores versions", () => {
+    const set = new KRNSet([`${iso}@v1`, `${iso}@v2`, iso], {
+      ignoreVersion: true,
+    });
+    expect(set.size).toBe(1);
+    expect(set.has(`${iso}@v3`)).toBe(true);
+    expect(set.get(iso)?.version).toBe("v1");
+    expect(set.options).toEqual({ ignoreVersion: true });
+  });
+
+  it("ignores services", () => {
+    const set = new KRNSet([iso], { ignoreService: true });
+    expect(set.has("//kopexa.com/frameworks/iso27001")).toBe(true);
+    expect(set.has("//isms.kopexa.com/frameworks/iso27001")).toBe(true);
+    expect(set.has(`${iso}@v1`)).toBe(false);
+  });
+
+  it("deletes and clears", () => {
+    const set = new KRNSet([iso, nist]);
+    expect(set.delete(iso)).toBe(true);
+    expect(set.delete(iso)).toBe(false);
+    expect(set.toJSON()).toEqual([nist]);
+    set.clear();
+    expect(set.size).toBe(0);
+  });
+
+  it("throws when adding invalid KRN strings", () => {
+    expect(() => new KRNSet(["invalid"])).toThrow(KRNError);
+  });
+
+  it("finds nothing for invalid KRN strings", () => {
+    const set = new KRNSet([iso]);
+    expect(set.has("invalid")).toBe(false);
+    expect(set.get("invalid")).toBeUndefined();
+    expect(set.delete("invalid")).toBe(false);
+  });
+
+  describe("set algebra", () => {
+    const a = new KRNSet([iso, nist]);
+    const b = new KRNSet([nist, soc2]);
+
+    it("union", () => {
+      expect(a.union(b).toJSON()).toEqual([iso, nist, soc2]);
+      expect(a.union([soc2]).toJSON()).toEqual([iso, nist, soc2]);
+    });
+
+    it("intersection", () => {
+      expect(a.intersection(b).toJSON()).toEqual([nist]);
+    });
+
+    it("difference", () => {
+      expect(a.difference(b).toJSON()).toEqual([iso]);
+      expect(b.difference(a).toJSON()).toEqual([soc2]);
+    });
+
+    it("isSubsetOf", () => {
+      expect(new KRNSet([nist]).isSubsetOf(a)).toBe(true);
+      expect(a.isSubsetOf(b)).toBe(false);
+    });
+
+    it("does not modify the operands", () => {
+      a.union(b);
+      a.difference(b);
+      expect(a.size).toBe(2);
+      expect(b.size).toBe(2);
+    });
+
+    it("compares with the options of the other set", () => {
+      const versioned = new KRNSet([`${iso}@v1`, `${nist}@v2`]);
+      const anyVersion = new KRNSet([iso], { ignoreVersion: true });
+      expect(versioned.intersection(anyVersion).toJSON()).toEqual([
+        `${iso}@v1`,
+      ]);
+      expect(versioned.difference(anyVersion).toJSON()).toEqual([`${nist}@v2`]);
+    });
+  });
+
+  it("handles many entries", () => {
+    const set = new KRNSet();
+    for (let i = 0; i < 20000; i++) {
+      set.add(KRN.parse(`//kopexa.com/evidences/ev-${i}`));
+    }
+    expect(set.size).toBe(20000);
+    expect(set.has("//kopexa.com/evidences/ev-19999")).toBe(true);
+  });
+
+  it("parses strings with the parse options", () => {
+    const parseOptions = { domain: "kopexa.test" };
+    const k = KRN.parse("//catalog.kopexa.test/frameworks/a", parseOptions);
+    const set = new KRNSet(["//kopexa.test/frameworks/a", k], {
+      parseOptions,
+    });
+    expect(set.size).toBe(2);
+    expect(set.has("//catalog.kopexa.test/frameworks/a")).toBe(true);
+    expect(set.has("//catalog.kopexa.com/frameworks/a")).toBe(false);
+    expect(() => set.add("//kopexa.com/frameworks/a")).toThrow(KRNError);
+    expect(set.union(["//kopexa.test/frameworks/b"]).size).toBe(3);
+  });
+});
+
+describe("KRNMap", () => {
+  it("maps KRNs by canonical form", () => {
+    const map = new KRNMap<string[]>();
+    map.set(KRN.parse(iso), ["c-1"]);
+    expect(map.get(iso)).toEqual(["c-1"]);
+    expect(map.get(KRN.parse(iso))).toEqual(["c-1"]);
+    expect(map.has(nist)).toBe(false);
+    expect(map.get(nist)).toBeUndefined();
+  });
+
+  it("replaces values but keeps the first KRN", () => {
+    const map = new KRNMap([[`${iso}@v1`, 1]], { ignoreVersion: true });
+    map.set(`${iso}@v2`, 2);
+    expect(map.size).toBe(1);
+    expect(map.get(iso)).toBe(2);
+    expect([...map.keys()].map((k) => k.toString())).toEqual([`${iso}@v1`]);
+  });
+
+  it("iterates in insertion order", () => {
+    const map = new KRNMap([
+      [iso, 1],
+      [nist, 2],
+    ]);
+    expect([...map.values()]).toEqual([1, 2]);
+    expect([...map].map(([k, v]) => [k.toString(), v])).toEqual([
+      [iso, 1],
+      [nist, 2],
+    ]);
+    expect([...map.entries()]).toHaveLength(2);
+  });
+
+  it("deletes and clears", () => {
+    const map = new KRNMap([
+      [iso, 1],
+      [nist, 2],
+    ]);
+    expect(map.delete(iso)).toBe(true);
+    expect(map.delete("invalid")).toBe(false);
+    expect(map.toJSON()).toEqual({ [nist]: 2 });
+    map.clear();
+    expect(map.size).toBe(0);
+  });
+
+  it("returns the keys as a set", () => {
+    const map = new KRNMap([[iso, 1]], { ignoreService: true });
+    const keys = map.keySet();
+    expect(keys.options).toEqual({ ignoreService: true });
+    expect(keys.has("//kopexa.com/frameworks/iso27001")).toBe(true);
+  });
+
+  it("serializes to JSON", () => {
+    const map = new KRNMap([[iso, { controls: 93 }]]);
+    expect(JSON.stringify(map)).toBe(`{"${iso}":{"controls":93}}`);
+  });
+
+  it("throws when setting invalid KRN strings", () => {
+    expect(() => new KRNMap([["invalid", 1]])).toThrow(KRNError);
+  });
+
+  it("parses strings with the parse options", () => {
+    const map = new KRNMap([["//kopexa.test/frameworks/a", 1]], {
+      parseOptions: { domain: "kopexa.test" },
+    });
+    expect(map.get("//kopexa.test/frameworks/a")).toBe(1);
+    expect(map.keySet().has("//kopexa.test/frameworks/a")).toBe(true);
+  });
+});
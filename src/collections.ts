@@ -0,0 +1,305 @@
+/**
+ * KRN collections - sets and maps keyed by the canonical form of KRNs.
+ *
+ * KRN instances are compared by value rather than identity, so two KRNs
+ * parsed from the same string are the same key. Optionally the version
+ * and/or service can be ignored, e.g. to treat
+ *   //catalog.kopexa.com/frameworks/iso27001@v1
+ *   //catalog.kopexa.com/frameworks/iso27001@v2
+ * as the same key.
+ *
+ * String keys are parsed as KRNs: adding an invalid KRN string throws,
+ * while lookups with an invalid string find nothing.
+ */
+
+import { KRN, type KRNParseOptions } from "./krn.js";
+
+/** Options controlling when two KRNs are the same key */
+export interface KRNKeyOptions {
+  /** Treat KRNs that only differ in version as equal */
+  ignoreVersion?: boolean;
+  /** Treat KRNs that only differ in service as equal */
+  ignoreService?: boolean;
+  /** Options for parsing KRN strings, e.g. another base domain, like for KRN.parse */
+  parseOptions?: KRNParseOptions;
+}
+
+/** Get the key of a KRN under the given options. */
+function keyOf(k: KRN, options: KRNKeyOptions): string {
+  if (!options.ignoreVersion && !options.ignoreService) {
+    return k.toString();
+  }
+  // Use a service that cannot occur in KRNs for an ignored service
+  const domain = options.ignoreService ? `*.${k.domain}` : k.fullDomain();
+  let key = `//${domain}/${k.path()}`;
+  if (!options.ignoreVersion && k.hasVersion()) {
+    key += `@${k.version}`;
+  }
+  return key;
+}
+
+/**
+ * Get the key of a KRN or KRN string, or null if the string is invalid.
+ */
+function tryKeyOf(k: KRN | string, options: KRNKeyOptions): string | null {
+  const parsed =
+    typeof k === "string" ? KRN.tryParse(k, options.parseOptions) : k;
+  return parsed === null ? null : keyOf(parsed, options);
+}
+
+/** Parse a KRN string, passing KRN instances through. */
+function toKRN(k: KRN | string, options: KRNKeyOptions): KRN {
+  return typeof k === "string" ? KRN.parse(k, options.parseOptions) : k;
+}
+
+/**
+ * KRNSet is a set of KRNs that are equal by canonical form.
+ *
+ * If KRNs are equal under the options, the first one added is kept, so
+ * iteration yields KRNs as they were added.
+ */
+export class KRNSet implements Iterable<KRN> {
+  private readonly _options: KRNKeyOptions;
+  private readonly _items = new Map<string, KRN>();
+
+  /**
+   * Create a set from KRNs or KRN strings.
+   * @throws {KRNError} if any string is not a valid KRN
+   */
+  constructor(
+    values: Iterable<KRN | string> = [],
+    options: KRNKeyOptions = {},
+  ) {
+    this._options = { ...options };
+    for (const value of values) {
+      this.add(value);
+    }
+  }
+
+  /** Get the options the set was created with. */
+  get options(): KRNKeyOptions {
+    return { ...this._options };
+  }
+
+  /** Get the number of KRNs in the set. */
+  get size(): number {
+    return this._items.size;
+  }
+
+  /**
+   * Add a KRN to the set. Does nothing if an equal KRN is present.
+   * @throws {KRNError} if the string is not a valid KRN
+   */
+  add(value: KRN | string): this {
+    const k = toKRN(value, this._options);
+    const key = keyOf(k, this._options);
+    if (!this._items.has(key)) {
+      this._items.set(key, k);
+    }
+    return this;
+  }
+
+  /** Check if the set contains a KRN equal to the given one. */
+  has(value: KRN | string): boolean {
+    const key = tryKeyOf(value, this._options);
+    return key !== null && this._items.has(key);
+  }
+
+  /**
+   * Get the KRN in the set that is equal to the given one, e.g. the
+   * versioned KRN when the version is ignored.
+   */
+  get(value: KRN | string): KRN | undefined {
+    const key = tryKeyOf(value, this._options);
+    return key === null ? undefined : this._items.get(key);
+  }
+
+  /** Remove a KRN from the set. Returns true if it was present. */
+  delete(value: KRN | string): boolean {
+    const key = tryKeyOf(value, this._options);
+    return key !== null && this._items.delete(key);
+  }
+
+  /** Remove all KRNs from the set. */
+  clear(): void {
+    this._items.clear();
+  }
+
+  /** Iterate over the KRNs in insertion order. */
+  values(): IterableIterator<KRN> {
+    return this._items.values();
+  }
+
+  [Symbol.iterator](): IterableIterator<KRN> {
+    return this.values();
+  }
+
+  /**
+   * Get a new set with the KRNs of this set and the given ones.
+   * The result has the options of this set.
+   */
+  union(other: Iterable<KRN | string>): KRNSet {
+    const result = new KRNSet(this, this._options);
+    for (const value of other) {
+      result.add(value);
+    }
+    return result;
+  }
+
+  /**
+   * Get a new set with the KRNs of this set that are also in the other set,
+   * compared with the options of the other set.
+   */
+  intersection(other: KRNSet): KRNSet {
+    const result = new KRNSet([], this._options);
+    for (const k of this) {
+      if (other.has(k)) {
+        result.add(k);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get a new set with the KRNs of this set that are not in the other set,
+   * compared with the options of the other set.
+   */
+  difference(other: KRNSet): KRNSet {
+    const result = new KRNSet([], this._options);
+    for (const k of this) {
+      if (!other.has(k)) {
+        result.add(k);
+      }
+    }
+    return result;
+  }
+
+  /** Check if every KRN of this set is in the other set. */
+  isSubsetOf(other: KRNSet): boolean {
+    for (const k of this) {
+      if (!other.has(k)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Get the KRNs as an array. */
+  toArray(): KRN[] {
+    return [...this._items.values()];
+  }
+
+  /** Get the canonical strings of the KRNs, e.g. for JSON. */
+  toJSON(): string[] {
+    return this.toArray().map((k) => k.toString());
+  }
+}
+
+/**
+ * KRNMap maps KRNs that are equal by canonical form to values.
+ *
+ * If KRNs are equal under the options, setting a value replaces the value
+ * but keeps the KRN that was set first.
+ */
+export class KRNMap<V> implements Iterable<[KRN, V]> {
+  private readonly _options: KRNKeyOptions;
+  private readonly _entries = new Map<string, [KRN, V]>();
+
+  /**
+   * Create a map from entries keyed by KRNs or KRN strings.
+   * @throws {KRNError} if any string is not a valid KRN
+   */
+  constructor(
+    entries: Iterable<readonly [KRN | string, V]> = [],
+    options: KRNKeyOptions = {},
+  ) {
+    this._options = { ...options };
+    for (const [k, v] of entries) {
+      this.set(k, v);
+    }
+  }
+
+  /** Get the options the map was created with. */
+  get options(): KRNKeyOptions {
+    return { ...this._options };
+  }
+
+  /** Get the number of entries in the map. */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Set the value of a KRN.
+   * @throws {KRNError} if the string is not a valid KRN
+   */
+  set(key: KRN | string, value: V): this {
+    const k = toKRN(key, this._options);
+    const mapKey = keyOf(k, this._options);
+    const existing = this._entries.get(mapKey);
+    this._entries.set(mapKey, [existing ? existing[0] : k, value]);
+    return this;
+  }
+
+  /** Get the value of a KRN, or undefined if not present. */
+  get(key: KRN | string): V | undefined {
+    const mapKey = tryKeyOf(key, this._options);
+    return mapKey === null ? undefined : this._entries.get(mapKey)?.[1];
+  }
+
+  /** Check if the map has a value for a KRN. */
+  has(key: KRN | string): boolean {
+    const mapKey = tryKeyOf(key, this._options);
+    return mapKey !== null && this._entries.has(mapKey);
+  }
+
+  /** Remove the entry of a KRN. Returns true if it was present. */
+  delete(key: KRN | string): boolean {
+    const mapKey = tryKeyOf(key, this._options);
+    return mapKey !== null && this._entries.delete(mapKey);
+  }
+
+  /** Remove all entries from the map. */
+  clear(): void {
+    this._entries.clear();
+  }
+
+  /** Iterate over the KRNs in insertion order. */
+  *keys(): IterableIterator<KRN> {
+    for (const [k] of this._entries.values()) {
+      yield k;
+    }
+  }
+
+  /** Iterate over the values in insertion order. */
+  *values(): IterableIterator<V> {
+    for (const [, v] of this._entries.values()) {
+      yield v;
+    }
+  }
+
+  /** Iterate over the entries in insertion order. */
+  *entries(): IterableIterator<[KRN, V]> {
+    for (const [k, v] of this._entries.values()) {
+      yield [k, v];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[KRN, V]> {
+    return this.entries();
+  }
+
+  /** Get the KRNs of the map as a set with the same options. */
+  keySet(): KRNSet {
+    return new KRNSet(this.keys(), this._options);
+  }
+
+  /** Get the entries keyed by canonical strings, e.g. for JSON. */
+  toJSON(): Record<string, V> {
+    const result: Record<string, V> = {};
+    for (const [k, v] of this._entries.values()) {
+      result[k.toString()] = v;
+    }
+    return result;
+  }
+}
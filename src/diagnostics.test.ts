@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { diagnoseKRN, KRN, KRNError, KRNErrorCode } from "./index.js";
+
+/** Apply all suggestions, last first so that offsets stay valid. */
+function applySuggestions(input: string): string {
+  let result = input;
+  for (const d of [...diagnoseKRN(input)].reverse()) {
+    if (d.suggestion !== undefined) {
+      result = result.slice(0, d.start) + d.suggestion + result.slice(d.end);
+    }
+  }
+  return result;
+}
+
+describe("diagnoseKRN", () => {
+  it("returns nothing for valid KRNs", () => {
+    expect(diagnoseKRN("//kopexa.com/frameworks/iso27001")).toEqual([]);
+    expect(
+      diagnoseKRN("//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2"),
+    ).toEqual([]);
+  });
+
+  it("reports all problems with positions", () => {
+    const input = "//kopexa.de/frameworks/iso 27001";
+    expect(diagnoseKRN(input)).toEqual([
+      {
+        code: KRNErrorCode.INVALID_DOMAIN,
+        message: "expected kopexa.com or {service}.kopexa.com, got kopexa.de",
+        start: 2,
+        end: 11,
+        expected: "kopexa.com or {service}.kopexa.com",
+        received: "kopexa.de",
+        suggestion: "kopexa.com",
+      },
+      {
+        code: KRNErrorCode.INVALID_RESOURCE_ID,
+        message: "invalid resource ID: iso 27001",
+        start: 23,
+        end: 32,
+        segment: 0,
+        expected:
+          "resource ID of 1-200 letters, digits, -, _ or ., not starting or ending with - or .",
+        received: "iso 27001",
+        suggestion: "iso-27001",
+      },
+    ]);
+  });
+
+  it("reports received text at the given offsets", () => {
+    const inputs = [
+      "/Catalog.kopexa.com/frameworks//controls/-x/@",
+      "kopexa.com/a/b@v 1",
+      "//kopxa.com",
+      "//kopexa.com/frameworks",
+    ];
+    for (const input of inputs) {
+      const diagnostics = diagnoseKRN(input);
+      expect(diagnostics.length).toBeGreaterThan(0);
+      for (const d of diagnostics) {
+        expect(input.slice(d.start, d.end)).toBe(d.received);
+      }
+    }
+  });
+
+  it("orders problems by position", () => {
+    const starts = diagnoseKRN("//Catalog.kopexa.com/frameworks/-x@v 1").map(
+      (d) => d.start,
+    );
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(starts).toHaveLength(3);
+  });
+
+  it("matches the error of KRN.parse", () => {
+    const inputs = [
+      "",
+      "kopexa.com/frameworks/x",
+      "//kopexa.com/frameworks/x@",
+      "//kopexa.com/frameworks",
+      "//example.com/frameworks/x",
+      "//Catalog.kopexa.com/frameworks/x",
+      "//kopexa.com/frameworks/x/controls",
+      "//kopexa.com//x",
+      "//kopexa.com/frameworks/-x",
+      "//kopexa.com/frame works/x",
+    ];
+    for (const input of inputs) {
+      const diagnostics = diagnoseKRN(input);
+      expect(diagnostics).toHaveLength(1);
+      try {
+        KRN.parse(input);
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect(err).toBeInstanceOf(KRNError);
+        expect(diagnostics[0]?.code).toBe((err as KRNError).code);
+        expect(diagnostics[0]?.message).toBe((err as KRNError).message);
+      }
+    }
+  });
+
+  describe("suggestions", () => {
+    const cases = [
+      {
+        input: "//kopexa.de/frameworks/iso27001",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//catalog.kopexa.io/frameworks/iso27001",
+        fixed: "//catalog.kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//kopxa.com/frameworks/iso27001",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//Catalog_API.kopexa.com/frameworks/iso27001",
+        fixed: "//catalog-api.kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "/kopexa.com/frameworks/iso27001",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "kopexa.com/frameworks/iso27001",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//kopexa.com/frameworks/ISO 27001",
+        fixed: "//kopexa.com/frameworks/ISO-27001",
+      },
+      {
+        input: "//kopexa.com/Frame works/iso27001",
+        fixed: "//kopexa.com/Frame-works/iso27001",
+      },
+      {
+        input: "//kopexa.com/frameworks/iso27001/",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//kopexa.com/frameworks/iso27001@",
+        fixed: "//kopexa.com/frameworks/iso27001",
+      },
+      {
+        input: "//kopexa.com/frameworks/iso27001@v 2",
+        fixed: "//kopexa.com/frameworks/iso27001@v-2",
+      },
+    ];
+
+    for (const tc of cases) {
+      it(`fixes ${tc.input}`, () => {
+        const fixed = applySuggestions(tc.input);
+        expect(fixed).toBe(tc.fixed);
+        expect(diagnoseKRN(fixed)).toEqual([]);
+      });
+    }
+
+    it("does not suggest unrelated domains", () => {
+      expect(
+        diagnoseKRN("//example.com/frameworks/x")[0]?.suggestion,
+      ).toBeUndefined();
+    });
+
+    it("does not suggest for missing parts", () => {
+      const [d] = diagnoseKRN("//kopexa.com/frameworks");
+      expect(d?.code).toBe(KRNErrorCode.INVALID_KRN);
+      expect(d?.received).toBe("/frameworks");
+      expect(d?.suggestion).toBeUndefined();
+    });
+  });
+
+  describe("parse options", () => {
+    it("checks the base domain of the options", () => {
+      const options = { domain: "kopexa.test" };
+      expect(diagnoseKRN("//kopexa.test/frameworks/x", options)).toEqual([]);
+      const [d] = diagnoseKRN("//kopexa.tset/frameworks/x", options);
+      expect(d?.code).toBe(KRNErrorCode.INVALID_DOMAIN);
+      expect(d?.message).toBe(
+        "expected kopexa.test or {service}.kopexa.test, got kopexa.tset",
+      );
+      expect(d?.expected).toBe("kopexa.test or {service}.kopexa.test");
+      expect(d?.suggestion).toBe("kopexa.test");
+      expect(diagnoseKRN("//kopexa.com/frameworks/x", options)).toHaveLength(1);
+    });
+
+    it("suggests services under longer domains", () => {
+      const [d] = diagnoseKRN("//Catalog.kopexa.acme.internal/frameworks/x", {
+        domain: "kopexa.acme.internal",
+      });
+      expect(d?.suggestion).toBe("catalog");
+      const [other] = diagnoseKRN(
+        "//catalog.kopexa.acme.intranet/frameworks/x",
+        {
+          domain: "kopexa.acme.internal",
+        },
+      );
+      expect(other?.suggestion).toBe("catalog.kopexa.acme.internal");
+    });
+
+    it("checks the collection rules of the options", () => {
+      const options = { collectionRules: { style: "kebab" as const } };
+      const [d] = diagnoseKRN("//kopexa.com/controls_v2/x", options);
+      expect(d?.code).toBe(KRNErrorCode.INVALID_COLLECTION);
+      expect(d?.expected).toBe(
+        "kebab-case collection name like control-implementations",
+      );
+      expect(diagnoseKRN("//kopexa.com/controls_v2/x")).toEqual([]);
+
+      const [plural] = diagnoseKRN("//kopexa.com/framework/x", {
+        collectionRules: { plural: true },
+      });
+      expect(plural?.message).toBe("collection name must be plural: framework");
+    });
+
+    it("reports service restrictions of otherwise valid KRNs", () => {
+      const input = "//isms.kopexa.com/tenants/acme";
+      const diagnostics = diagnoseKRN(input, { allowedServices: ["catalog"] });
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]?.start).toBe(2);
+      expect(diagnostics[0]?.received).toBe("isms.kopexa.com");
+      expect(() => KRN.parse(input, { allowedServices: ["catalog"] })).toThrow(
+        diagnostics[0]?.message,
+      );
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Parse diagnostics - report all problems of a KRN string with their
+ * position, instead of the first error KRN.parse throws.
+ *
+ * Example:
+ *   diagnoseKRN("//kopexa.de/frameworks/iso 27001")
+ *   // [
+ *   //   { code: "INVALID_DOMAIN", start: 2, end: 11, received: "kopexa.de",
+ *   //     suggestion: "kopexa.com", ... },
+ *   //   { code: "INVALID_RESOURCE_ID", start: 23, end: 32, segment: 0,
+ *   //     received: "iso 27001", suggestion: "iso-27001", ... },
+ *   // ]
+ *
+ * Codes and messages match the errors of KRN.parse, and an input without
+ * diagnostics parses with the same options.
+ */
+
+import {
+  baseDomain,
+  isValidCollection,
+  isValidResourceId,
+  isValidService,
+  isValidVersion,
+  KRN,
+  type KRNCollectionRules,
+  type KRNCollectionStyle,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+  safeResourceId,
+  splitDomain,
+} from "./krn.js";
+
+/** A problem of a KRN string */
+export interface KRNDiagnostic {
+  code: KRNErrorCode;
+  message: string;
+  /** Offset of the first offending character in the input */
+  start: number;
+  /** Offset after the last offending character (start for missing text) */
+  end: number;
+  /** Index of the offending collection/resource-id pair, if any */
+  segment?: number;
+  /** Description of what was expected */
+  expected: string;
+  /** The offending text, input.slice(start, end) */
+  received: string;
+  /** Replacement for input.slice(start, end) that fixes the problem, if known */
+  suggestion?: string;
+}
+
+const EXPECTED_PREFIX = "// prefix";
+const EXPECTED_SERVICE =
+  "service name of lowercase letters, digits and hyphens, starting with a letter";
+const EXPECTED_ALLOWED_SERVICE = "service allowed by the parse options";
+const EXPECTED_VERSION = "version like v1, v1.2.3, 2022-01-15 or latest";
+const EXPECTED_COLLECTIONS: Record<KRNCollectionStyle, string> = {
+  loose:
+    "collection name of letters, digits, _, . or -, not starting with . or -",
+  kebab: "kebab-case collection name like control-implementations",
+  lower: "collection name of lowercase letters and digits",
+  camel: "camelCase collection name like controlImplementations",
+};
+const EXPECTED_HIERARCHY = "collections allowed for the service";
+const EXPECTED_RESOURCE_ID =
+  "resource ID of 1-200 letters, digits, -, _ or ., not starting or ending with - or .";
+const EXPECTED_PATH = "collection/id pairs";
+
+/** Maximum edit distance of a domain to be suggested as the base domain */
+const MAX_DOMAIN_DISTANCE = 2;
+
+/** Levenshtein distance between two strings. */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(
+        (prev[j] ?? 0) + 1,
+        (curr[j - 1] ?? 0) + 1,
+        (prev[j - 1] ?? 0) + cost,
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length] ?? 0;
+}
+
+/** Suggest a valid service name, or undefined if none can be derived. */
+function suggestService(service: string): string | undefined {
+  let result = "";
+  for (const char of service.toLowerCase()) {
+    result += /[a-z0-9]/.test(char) ? char : "-";
+  }
+  // Trim leading non-letters and trailing hyphens (using indices to avoid ReDoS)
+  let start = 0;
+  while (start < result.length && !/[a-z]/.test(result[start] ?? "")) {
+    start++;
+  }
+  let end = result.length;
+  while (end > start && result[end - 1] === "-") {
+    end--;
+  }
+  result = result.slice(start, end);
+  return isValidService(result) ? result : undefined;
+}
+
+/** Describe the expected domain, e.g. "kopexa.com or {service}.kopexa.com". */
+function expectedDomain(domain: string): string {
+  return `${domain} or {service}.${domain}`;
+}
+
+/** Describe the expected collection names under the given rules. */
+function expectedCollection(rules: KRNCollectionRules): string {
+  let expected = EXPECTED_COLLECTIONS[rules.style ?? "loose"];
+  if (rules.plural) {
+    expected = `plural ${expected}`;
+  }
+  if (rules.maxLength !== undefined) {
+    expected += `, at most ${rules.maxLength} characters`;
+  }
+  return expected;
+}
+
+/**
+ * Suggest a domain for one that is not the base domain or
+ * {service}.{base domain}, e.g. kopexa.com for kopexa.de or kopxa.com.
+ * Returns undefined if the domain does not look like a misspelled base
+ * domain.
+ */
+function suggestDomain(domain: string, baseDomain: string): string | undefined {
+  const lower = domain.toLowerCase();
+  const labels = lower.split(".");
+  const count = baseDomain.split(".").length;
+  // Try as many labels as the base domain has, or the whole domain
+  const base = labels.length >= count ? labels.slice(-count).join(".") : lower;
+  const service =
+    labels.length > count ? labels.slice(0, -count).join(".") : "";
+  const [name] = baseDomain.split(".");
+  if (
+    labels.at(-count) !== name &&
+    editDistance(base, baseDomain) > MAX_DOMAIN_DISTANCE
+  ) {
+    return undefined;
+  }
+  if (!service) {
+    return baseDomain;
+  }
+  const suggested = suggestService(service);
+  return suggested ? `${suggested}.${baseDomain}` : undefined;
+}
+
+/** Suggest a valid resource ID, or undefined if none can be derived. */
+function suggestResourceId(id: string): string | undefined {
+  try {
+    const result = safeResourceId(id);
+    return isValidResourceId(result) ? result : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Suggest a valid version, or undefined if none can be derived. */
+function suggestVersion(version: string): string | undefined {
+  const result = suggestResourceId(version);
+  return result !== undefined && isValidVersion(result) ? result : undefined;
+}
+
+/** Drop undefined suggestions, as optional properties must be absent. */
+function withSuggestion(
+  diagnostic: Omit<KRNDiagnostic, "suggestion">,
+  suggestion: string | undefined,
+): KRNDiagnostic {
+  return suggestion === undefined ? diagnostic : { ...diagnostic, suggestion };
+}
+
+/**
+ * Diagnose a KRN string, returning all problems ordered by position.
+ * Returns an empty array for valid KRNs. Options set another base domain,
+ * collection rules or service restrictions, like for KRN.parse.
+ * @throws {KRNError} if the base domain of the options is invalid
+ */
+export function diagnoseKRN(
+  input: string,
+  options: KRNParseOptions = {},
+): KRNDiagnostic[] {
+  const base = baseDomain(options);
+  const rules = options.collectionRules ?? {};
+  if (!input) {
+    return [
+      {
+        code: KRNErrorCode.EMPTY_KRN,
+        message: "empty KRN string",
+        start: 0,
+        end: 0,
+        expected: "KRN string",
+        received: "",
+      },
+    ];
+  }
+
+  const diagnostics: KRNDiagnostic[] = [];
+
+  // Prefix - continue after a single slash or none as if it were //
+  let offset = 2;
+  if (!input.startsWith("//")) {
+    offset = input.startsWith("/") ? 1 : 0;
+    diagnostics.push({
+      code: KRNErrorCode.INVALID_KRN,
+      message: "must start with //",
+      start: 0,
+      end: offset,
+      expected: EXPECTED_PREFIX,
+      received: input.slice(0, offset),
+      suggestion: "//",
+    });
+  }
+
+  // Version, split off at the last @ like KRN.parse
+  let pathEnd = input.length;
+  const atIndex = input.lastIndexOf("@");
+  if (atIndex >= offset) {
+    pathEnd = atIndex;
+    const version = input.slice(atIndex + 1);
+    if (!isValidVersion(version)) {
+      // An empty version is fixed by removing the @
+      const start = version ? atIndex + 1 : atIndex;
+      diagnostics.push(
+        withSuggestion(
+          {
+            code: KRNErrorCode.INVALID_VERSION,
+            message: `invalid version format: ${version}`,
+            start,
+            end: input.length,
+            expected: EXPECTED_VERSION,
+            received: input.slice(start),
+          },
+          version ? suggestVersion(version) : "",
+        ),
+      );
+    }
+  }
+
+  // Split the rest into domain and path tokens with their offsets
+  const tokens: { text: string; start: number }[] = [];
+  let tokenStart = offset;
+  for (let i = offset; i <= pathEnd; i++) {
+    if (i === pathEnd || input[i] === "/") {
+      tokens.push({ text: input.slice(tokenStart, i), start: tokenStart });
+      tokenStart = i + 1;
+    }
+  }
+
+  // Domain - "kopexa.com" or "{service}.kopexa.com"
+  const domain = tokens[0] ?? { text: "", start: offset };
+  const domainEnd = domain.start + domain.text.length;
+  const split = splitDomain(domain.text, base);
+  if (split instanceof KRNError && domain.text.endsWith(`.${base}`)) {
+    // Only the service is wrong
+    const service = domain.text.slice(0, -(base.length + 1));
+    diagnostics.push(
+      withSuggestion(
+        {
+          code: split.code,
+          message: split.message,
+          start: domain.start,
+          end: domain.start + service.length,
+          expected: EXPECTED_SERVICE,
+          received: service,
+        },
+        suggestService(service),
+      ),
+    );
+  } else if (split instanceof KRNError) {
+    diagnostics.push(
+      withSuggestion(
+        {
+          code: split.code,
+          message: split.message,
+          start: domain.start,
+          end: domainEnd,
+          expected: expectedDomain(base),
+          received: domain.text,
+        },
+        suggestDomain(domain.text, base),
+      ),
+    );
+  }
+
+  // Resource path - pairs of collection/id
+  const path = tokens.slice(1);
+  if (path.length < 2) {
+    diagnostics.push({
+      code: KRNErrorCode.INVALID_KRN,
+      message: "must have at least domain/collection/id",
+      start: domainEnd,
+      end: pathEnd,
+      expected: EXPECTED_PATH,
+      received: input.slice(domainEnd, pathEnd),
+    });
+    return diagnostics.sort((a, b) => a.start - b.start);
+  }
+
+  for (let i = 0; i < path.length; i += 2) {
+    const segment = i / 2;
+    const collection = path[i] as { text: string; start: number };
+    const id = path[i + 1];
+
+    // A trailing slash is reported below as an odd path
+    if (!collection.text && id !== undefined) {
+      diagnostics.push({
+        code: KRNErrorCode.INVALID_KRN,
+        message: "empty collection name",
+        start: collection.start,
+        end: collection.start,
+        segment,
+        expected: expectedCollection(rules),
+        received: "",
+      });
+    } else if (collection.text && !isValidCollection(collection.text, rules)) {
+      const safe = safeResourceId(collection.text);
+      // Like KRN.parse, report the name before the plural rule
+      const plural =
+        isValidCollection(collection.text, { ...rules, plural: false }) &&
+        rules.plural;
+      diagnostics.push(
+        withSuggestion(
+          {
+            code: KRNErrorCode.INVALID_COLLECTION,
+            message: plural
+              ? `collection name must be plural: ${collection.text}`
+              : `invalid collection name: ${collection.text}`,
+            start: collection.start,
+            end: collection.start + collection.text.length,
+            segment,
+            expected: expectedCollection(rules),
+            received: collection.text,
+          },
+          isValidCollection(safe, rules) ? safe : undefined,
+        ),
+      );
+    }
+
+    if (id === undefined) {
+      // A trailing slash is fixed by removing it
+      const trailingSlash = !collection.text && i > 0;
+      const start = trailingSlash ? collection.start - 1 : collection.start;
+      diagnostics.push(
+        withSuggestion(
+          {
+            code: KRNErrorCode.INVALID_KRN,
+            message: "resource path must be pairs of collection/id",
+            start,
+            end: collection.start + collection.text.length,
+            segment,
+            expected: EXPECTED_PATH,
+            received: input.slice(
+              start,
+              collection.start + collection.text.length,
+            ),
+          },
+          trailingSlash ? "" : undefined,
+        ),
+      );
+    } else if (!isValidResourceId(id.text)) {
+      diagnostics.push(
+        withSuggestion(
+          {
+            code: KRNErrorCode.INVALID_RESOURCE_ID,
+            message: `invalid resource ID: ${id.text}`,
+            start: id.start,
+            end: id.start + id.text.length,
+            segment,
+            expected: EXPECTED_RESOURCE_ID,
+            received: id.text,
+          },
+          id.text ? suggestResourceId(id.text) : undefined,
+        ),
+      );
+    }
+  }
+
+  // Service restrictions only apply to otherwise valid KRNs
+  if (diagnostics.length === 0) {
+    try {
+      KRN.parse(input, options);
+    } catch (err) {
+      if (!(err instanceof KRNError)) {
+        throw err;
+      }
+      const hierarchy = err.code === KRNErrorCode.INVALID_HIERARCHY;
+      const start = hierarchy ? domainEnd + 1 : domain.start;
+      const end = hierarchy ? pathEnd : domainEnd;
+      diagnostics.push({
+        code: err.code,
+        message: err.message,
+        start,
+        end,
+        expected: hierarchy ? EXPECTED_HIERARCHY : EXPECTED_ALLOWED_SERVICE,
+        received: input.slice(start, end),
+      });
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,264 @@
+import { describe, expect, it } from "vitest";
+import { EndpointResolver, KRN, KRNError, KRNErrorCode } from "./index.js";
+
+function resolver(): EndpointResolver {
+  return new EndpointResolver({
+    environments: {
+      prod: { baseUrl: "https://api.kopexa.com" },
+      staging: { baseUrl: "https://api.staging.kopexa.com/" },
+      local: {
+        baseUrl: "http://localhost:8080",
+        services: { catalog: "http://localhost:8081" },
+      },
+    },
+    servicePaths: { isms: "/isms/v2" },
+  });
+}
+
+function expectCode(fn: () => unknown, code: string) {
+  try {
+    fn();
+    expect.fail("expected KRNError");
+  } catch (err) {
+    expect(err).toBeInstanceOf(KRNError);
+    expect((err as KRNError).code).toBe(code);
+  }
+}
+
+describe("EndpointResolver", () => {
+  describe("constructor", () => {
+    it("defaults to the first environment", () => {
+      const r = resolver();
+      expect(r.environments()).toEqual(["prod", "staging", "local"]);
+      expect(r.resolve("//catalog.kopexa.com/frameworks/iso27001")).toBe(
+        "https://api.kopexa.com/catalog/v1/frameworks/iso27001",
+      );
+    });
+
+    it("uses the configured default environment", () => {
+      const r = new EndpointResolver({
+        environments: {
+          prod: { baseUrl: "https://api.kopexa.com" },
+          staging: { baseUrl: "https://api.staging.kopexa.com" },
+        },
+        defaultEnvironment: "staging",
+      });
+      expect(r.resolve("//catalog.kopexa.com/frameworks/iso27001")).toBe(
+        "https://api.staging.kopexa.com/catalog/v1/frameworks/iso27001",
+      );
+    });
+
+    it("throws on unknown default environment", () => {
+      expectCode(
+        () =>
+          new EndpointResolver({
+            environments: { prod: { baseUrl: "https://api.kopexa.com" } },
+            defaultEnvironment: "dev",
+          }),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+      expectCode(
+        () => new EndpointResolver({ environments: {} }),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+    });
+  });
+
+  describe("resolve", () => {
+    const r = resolver();
+
+    it("resolves KRNs per environment", () => {
+      const k = KRN.parse("//catalog.kopexa.com/frameworks/iso27001");
+      expect(r.resolve(k, "staging")).toBe(
+        "https://api.staging.kopexa.com/catalog/v1/frameworks/iso27001",
+      );
+      expect(r.resolve(k, "local")).toBe(
+        "http://localhost:8081/catalog/v1/frameworks/iso27001",
+      );
+    });
+
+    it("uses the environment base URL for services without override", () => {
+      expect(r.resolve("//policy.kopexa.com/policies/p-1", "local")).toBe(
+        "http://localhost:8080/policy/v1/policies/p-1",
+      );
+    });
+
+    it("resolves KRNs without service", () => {
+      expect(r.resolve("//kopexa.com/tenants/acme-corp/workspaces/main")).toBe(
+        "https://api.kopexa.com/v1/tenants/acme-corp/workspaces/main",
+      );
+    });
+
+    it("uses configured service paths", () => {
+      expect(r.resolve("//isms.kopexa.com/risks/r-1")).toBe(
+        "https://api.kopexa.com/isms/v2/risks/r-1",
+      );
+      expect(r.servicePath("isms")).toBe("/isms/v2");
+      expect(r.baseUrl("isms", "staging")).toBe(
+        "https://api.staging.kopexa.com/isms/v2",
+      );
+    });
+
+    it("adds the version as query parameter", () => {
+      expect(r.resolve("//kopexa.com/frameworks/iso27001@v2")).toBe(
+        "https://api.kopexa.com/v1/frameworks/iso27001?version=v2",
+      );
+    });
+
+    it("keeps kebab-case collections", () => {
+      const k = KRN.parse("//kopexa.com/tenants/acme").child(
+        "control-implementations",
+        "x",
+      );
+      expect(r.resolve(k)).toBe(
+        "https://api.kopexa.com/v1/tenants/acme/control-implementations/x",
+      );
+      expect(r.parse(r.resolve(k)).equals(k)).toBe(true);
+    });
+
+    it("throws on unknown environments", () => {
+      expectCode(
+        () => r.resolve("//kopexa.com/tenants/acme", "dev"),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+    });
+
+    it("throws on invalid KRN strings", () => {
+      expectCode(() => r.resolve("invalid"), KRNErrorCode.INVALID_KRN);
+    });
+  });
+
+  describe("parse", () => {
+    const r = resolver();
+
+    it("round-trips KRNs in every environment", () => {
+      const krns = [
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+        "//kopexa.com/tenants/acme-corp/workspaces/main@v2",
+        "//isms.kopexa.com/risks/r-1@2022-01-15",
+        "//policy.kopexa.com/policies/p-1",
+      ];
+      for (const env of r.environments()) {
+        for (const s of krns) {
+          const k = KRN.parse(s);
+          expect(r.parse(r.resolve(k, env)).toString()).toBe(s);
+        }
+      }
+    });
+
+    it("parses URLs of service overrides", () => {
+      expect(
+        r
+          .parse("http://localhost:8081/catalog/v1/frameworks/iso27001")
+          .toString(),
+      ).toBe("//catalog.kopexa.com/frameworks/iso27001");
+    });
+
+    it("ignores fragments and other query parameters", () => {
+      expect(
+        r
+          .parse(
+            "https://api.kopexa.com/v1/frameworks/iso27001?expand=controls&version=v1#top",
+          )
+          .toString(),
+      ).toBe("//kopexa.com/frameworks/iso27001@v1");
+    });
+
+    it("rejects URLs of unknown hosts", () => {
+      expectCode(
+        () => r.parse("https://example.com/v1/frameworks/iso27001"),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com.evil.com/v1/frameworks/x"),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+    });
+
+    it("rejects URLs without known service path", () => {
+      expectCode(
+        () => r.parse("https://api.kopexa.com/frameworks/iso27001"),
+        KRNErrorCode.INVALID_KRN,
+      );
+      // isms is configured with /isms/v2
+      expectCode(
+        () => r.parse("https://api.kopexa.com/isms/v1/risks/r-1"),
+        KRNErrorCode.INVALID_KRN,
+      );
+      expectCode(
+        () => r.parse("http://localhost:8081/policy/v1/policies/p-1"),
+        KRNErrorCode.INVALID_KRN,
+      );
+    });
+
+    it("rejects invalid resource paths", () => {
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/frameworks"),
+        KRNErrorCode.INVALID_KRN,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/frameworks/-bad"),
+        KRNErrorCode.INVALID_RESOURCE_ID,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/tenants/acme/a%20b/x"),
+        KRNErrorCode.INVALID_COLLECTION,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/frameworks/a%2Fb"),
+        KRNErrorCode.INVALID_KRN,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/frameworks/%E0"),
+        KRNErrorCode.INVALID_KRN,
+      );
+      expectCode(
+        () => r.parse("https://api.kopexa.com/v1/frameworks/x?version=-v"),
+        KRNErrorCode.INVALID_VERSION,
+      );
+    });
+
+    it("tryParse returns null on failure", () => {
+      expect(r.tryParse("https://example.com/v1/frameworks/x")).toBeNull();
+      expect(
+        r.tryParse("https://api.kopexa.com/v1/frameworks/x"),
+      ).not.toBeNull();
+    });
+  });
+
+  describe("parseOptions", () => {
+    const test = new EndpointResolver({
+      environments: { test: { baseUrl: "https://api.kopexa.test" } },
+      parseOptions: { domain: "kopexa.test" },
+    });
+
+    it("resolves KRNs of its domain", () => {
+      expect(test.domain).toBe("kopexa.test");
+      expect(test.resolve("//catalog.kopexa.test/frameworks/x")).toBe(
+        "https://api.kopexa.test/catalog/v1/frameworks/x",
+      );
+    });
+
+    it("rejects KRNs of other domains", () => {
+      expectCode(
+        () => test.resolve(KRN.parse("//catalog.kopexa.com/frameworks/x")),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+      expectCode(
+        () =>
+          resolver().resolve(
+            KRN.parse("//catalog.kopexa.test/frameworks/x", {
+              domain: "kopexa.test",
+            }),
+          ),
+        KRNErrorCode.INVALID_DOMAIN,
+      );
+    });
+
+    it("parses URLs into KRNs of its domain", () => {
+      const k = test.parse("https://api.kopexa.test/catalog/v1/frameworks/x");
+      expect(k.toString()).toBe("//catalog.kopexa.test/frameworks/x");
+      expect(k.domain).toBe("kopexa.test");
+    });
+  });
+});
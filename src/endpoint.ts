@@ -0,0 +1,290 @@
+/**
+ * Endpoint resolution - map KRNs to API URLs per environment and back.
+ *
+ * URL Format:
+ *   {baseUrl}{servicePath}/{collection}/{resource-id}[/{collection}/{resource-id}][?version={version}]
+ *
+ * The service path defaults to /{service}/v1, or /v1 for KRNs without service.
+ * A resolver is bound to a base domain, kopexa.com unless the parse options
+ * set another one: it only resolves KRNs of that domain and parses URLs
+ * into them.
+ *
+ * Examples (staging, baseUrl https://api.staging.kopexa.com):
+ *   //catalog.kopexa.com/frameworks/iso27001
+ *     -> https://api.staging.kopexa.com/catalog/v1/frameworks/iso27001
+ *   //kopexa.com/tenants/acme-corp@v2
+ *     -> https://api.staging.kopexa.com/v1/tenants/acme-corp?version=v2
+ */
+
+import {
+  baseDomain,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+} from "./krn.js";
+
+/** API location of one environment */
+export interface EndpointEnvironment {
+  /** Base URL of the API gateway, e.g. https://api.kopexa.com */
+  baseUrl: string;
+  /**
+   * Base URLs of individual services that are not behind the gateway,
+   * e.g. { catalog: "http://localhost:8081" } for local development.
+   * The service path is still appended.
+   */
+  services?: Record<string, string>;
+}
+
+/** Options for an EndpointResolver */
+export interface EndpointResolverOptions {
+  /** Environments by name, e.g. prod, staging, local */
+  environments: Record<string, EndpointEnvironment>;
+  /** Environment used when none is given. Defaults to the first one. */
+  defaultEnvironment?: string;
+  /**
+   * Path below the base URL per service, overriding /{service}/v1.
+   * Use "" as key for KRNs without service.
+   */
+  servicePaths?: Record<string, string>;
+  /**
+   * Options for parsing KRN strings and URLs, e.g. another base domain,
+   * like for KRN.parse
+   */
+  parseOptions?: KRNParseOptions;
+}
+
+/** A base URL and the service it is bound to, if any */
+interface Base {
+  url: string;
+  service: string | null;
+}
+
+/** Default service path, e.g. /catalog/v1 */
+const DEFAULT_SERVICE_PATH = /^\/([a-z][a-z0-9-]*)\/v1(?=\/|$)/;
+
+/** Strip trailing slashes (using indices to avoid ReDoS) */
+function trimSlashes(s: string): string {
+  let end = s.length;
+  while (end > 0 && s[end - 1] === "/") {
+    end--;
+  }
+  return s.slice(0, end);
+}
+
+/**
+ * EndpointResolver maps KRNs to HTTPS URLs of the API per environment and
+ * parses such URLs back into KRNs.
+ */
+export class EndpointResolver {
+  private readonly _environments: Map<string, EndpointEnvironment>;
+  private readonly _defaultEnvironment: string;
+  private readonly _servicePaths: Map<string, string>;
+  private readonly _domain: string;
+  private readonly _parseOptions: KRNParseOptions;
+
+  /**
+   * Create a resolver.
+   * @throws {KRNError} if the default environment or the base domain is
+   * invalid
+   */
+  constructor(options: EndpointResolverOptions) {
+    this._parseOptions = options.parseOptions ?? {};
+    this._domain = baseDomain(this._parseOptions);
+    this._environments = new Map(Object.entries(options.environments));
+    const first = this._environments.keys().next().value;
+    const defaultEnvironment = options.defaultEnvironment ?? first;
+    if (
+      defaultEnvironment === undefined ||
+      !this._environments.has(defaultEnvironment)
+    ) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `unknown environment: ${defaultEnvironment ?? "(none configured)"}`,
+      );
+    }
+    this._defaultEnvironment = defaultEnvironment;
+    this._servicePaths = new Map(
+      Object.entries(options.servicePaths ?? {}).map(([service, path]) => [
+        service,
+        trimSlashes(path),
+      ]),
+    );
+  }
+
+  /** Get the base domain of the resolved KRNs. */
+  get domain(): string {
+    return this._domain;
+  }
+
+  /** Get the configured environment names. */
+  environments(): string[] {
+    return [...this._environments.keys()];
+  }
+
+  /** Get the path below the base URL for a service. */
+  servicePath(service: string): string {
+    return (
+      this._servicePaths.get(service) ?? (service ? `/${service}/v1` : "/v1")
+    );
+  }
+
+  /**
+   * Get the base URL of a service in an environment, including the service path.
+   * @throws {KRNError} if the environment is unknown
+   */
+  baseUrl(service: string, environment = this._defaultEnvironment): string {
+    const env = this._environments.get(environment);
+    if (!env) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `unknown environment: ${environment}`,
+      );
+    }
+    const base = env.services?.[service] ?? env.baseUrl;
+    return trimSlashes(base) + this.servicePath(service);
+  }
+
+  /**
+   * Resolve a KRN to its API URL in an environment.
+   * @throws {KRNError} if the KRN or environment is invalid, or the KRN has
+   * another base domain
+   */
+  resolve(target: KRN | string, environment?: string): string {
+    const k =
+      typeof target === "string"
+        ? KRN.parse(target, this._parseOptions)
+        : target;
+    if (k.domain !== this._domain) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `expected domain ${this._domain}, got ${k.domain}`,
+      );
+    }
+    let url = this.baseUrl(k.service, environment);
+    for (const seg of k.segments()) {
+      url += `/${encodeURIComponent(seg.collection)}/${encodeURIComponent(seg.resourceId)}`;
+    }
+    if (k.hasVersion()) {
+      url += `?version=${encodeURIComponent(k.version)}`;
+    }
+    return url;
+  }
+
+  /**
+   * Parse an API URL of any configured environment back into a KRN.
+   * @throws {KRNError} if the URL does not belong to a configured environment
+   *   or does not contain a valid resource path
+   */
+  parse(url: string): KRN {
+    // Split off fragment and query
+    let rest = url;
+    const hashIndex = rest.indexOf("#");
+    if (hashIndex !== -1) {
+      rest = rest.slice(0, hashIndex);
+    }
+    let query = "";
+    const queryIndex = rest.indexOf("?");
+    if (queryIndex !== -1) {
+      query = rest.slice(queryIndex + 1);
+      rest = rest.slice(0, queryIndex);
+    }
+
+    const base = this.bases().find(
+      (b) => rest === b.url || rest.startsWith(`${b.url}/`),
+    );
+    if (!base) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `URL does not belong to a configured environment: ${url}`,
+      );
+    }
+
+    const afterBase = rest.slice(base.url.length);
+    const service = base.service ?? this.serviceOf(afterBase);
+    const servicePath = service === null ? "" : this.servicePath(service);
+    if (
+      service === null ||
+      !(afterBase === servicePath || afterBase.startsWith(`${servicePath}/`))
+    ) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        `URL has no known service path: ${url}`,
+      );
+    }
+    const path = afterBase.slice(servicePath.length);
+
+    let version = "";
+    for (const param of query.split("&")) {
+      if (param.startsWith("version=")) {
+        version = param.slice("version=".length);
+      }
+    }
+
+    let tokens: string[];
+    try {
+      tokens = path.split("/").slice(1).map(decodeURIComponent);
+      version = decodeURIComponent(version);
+    } catch {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        `invalid percent-encoding in URL: ${url}`,
+      );
+    }
+    if (tokens.some((t) => t.includes("/") || t.includes("@"))) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        `invalid character in URL path: ${url}`,
+      );
+    }
+
+    // Use parse to create the KRN to ensure consistency
+    let krn = `//${service ? `${service}.` : ""}${this._domain}/${tokens.join("/")}`;
+    if (version) {
+      krn += `@${version}`;
+    }
+    return KRN.parse(krn, this._parseOptions);
+  }
+
+  /**
+   * Parse an API URL, returning null if invalid instead of throwing.
+   */
+  tryParse(url: string): KRN | null {
+    try {
+      return this.parse(url);
+    } catch {
+      return null;
+    }
+  }
+
+  /** List all base URLs, longest first so the most specific one matches. */
+  private bases(): Base[] {
+    const bases: Base[] = [];
+    for (const env of this._environments.values()) {
+      bases.push({ url: trimSlashes(env.baseUrl), service: null });
+      for (const [service, url] of Object.entries(env.services ?? {})) {
+        bases.push({ url: trimSlashes(url), service });
+      }
+    }
+    return bases.sort((a, b) => b.url.length - a.url.length);
+  }
+
+  /** Find the service whose service path starts the given path. */
+  private serviceOf(path: string): string | null {
+    const configured = [...this._servicePaths.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .find(([, p]) => path === p || path.startsWith(`${p}/`));
+    if (configured) {
+      return configured[0];
+    }
+    // Services with a configured path never use the default one
+    const service =
+      path === "/v1" || path.startsWith("/v1/")
+        ? ""
+        : DEFAULT_SERVICE_PATH.exec(path)?.[1];
+    if (service === undefined || this._servicePaths.has(service)) {
+      return null;
+    }
+    return service;
+  }
+}
@@ -1,15 +1,23 @@
 import { describe, expect, it } from "vitest";
 import {
+  compareVersions,
   DOMAIN,
+  decodeResourceId,
+  encodeResourceId,
   getResource,
+  isValidCollection,
+  isValidDomain,
   isValidResourceId,
   isValidService,
   isValidVersion,
   KRN,
+  KRNBuilder,
   KRNError,
   KRNErrorCode,
   krn,
+  parseVersion,
   safeResourceId,
+  splitDomain,
 } from "./index.js";
 
 describe("KRN.parse", () => {
@@ -156,6 +164,50 @@ describe("KRN.parse", () => {
       expect(() => KRN.parse("//kopexa.com//iso27001")).toThrow(KRNError);
     });
 
+    it("throws INVALID_COLLECTION on invalid collection names", () => {
+      for (const input of [
+        "//kopexa.com/Frame works!/x",
+        "//kopexa.com/-frameworks/iso27001",
+        "//kopexa.com/frameworks/iso27001/controls:v2/5.1.1",
+      ]) {
+        expect(() => KRN.parse(input)).toThrow(
+          expect.objectContaining({ code: KRNErrorCode.INVALID_COLLECTION }),
+        );
+      }
+    });
+
+    it("reports invalid resource IDs before invalid collections", () => {
+      for (const input of [
+        "//kopexa.com/Foo bar/-bad",
+        "//kopexa.com/a b/x/controls/-bad",
+      ]) {
+        expect(() => KRN.parse(input)).toThrow(
+          expect.objectContaining({ code: KRNErrorCode.INVALID_RESOURCE_ID }),
+        );
+      }
+      expect(() =>
+        KRN.parse("//kopexa.com/frameworks/x").child("a b", "-bad"),
+      ).toThrow(
+        expect.objectContaining({ code: KRNErrorCode.INVALID_RESOURCE_ID }),
+      );
+    });
+
+    it("applies collection rules from the options", () => {
+      const input = "//kopexa.com/tenants/acme/controlImplementations/ci-1";
+      expect(KRN.isValid(input)).toBe(true);
+      expect(KRN.isValid(input, { collectionRules: { style: "camel" } })).toBe(
+        true,
+      );
+      expect(KRN.isValid(input, { collectionRules: { style: "kebab" } })).toBe(
+        false,
+      );
+      expect(() =>
+        KRN.parse("//kopexa.com/frameworks/x/guidance/g-1", {
+          collectionRules: { plural: true },
+        }),
+      ).toThrow("collection name must be plural: guidance");
+    });
+
     it("throws on invalid resource ID - starts with dash", () => {
       expect(() => KRN.parse("//kopexa.com/frameworks/-iso27001")).toThrow(
         KRNError,
@@ -215,6 +267,76 @@ describe("KRN.isValid", () => {
   });
 });
 
+describe("KRN.normalize", () => {
+  const iso = "//catalog.kopexa.com/frameworks/iso27001";
+
+  it("leaves valid KRNs unchanged", () => {
+    const { krn, fixes } = KRN.normalize(`${iso}@v1`);
+    expect(krn.toString()).toBe(`${iso}@v1`);
+    expect(fixes).toEqual([]);
+  });
+
+  it.each([
+    [`  ${iso}\n`, ["whitespace"]],
+    ["https://catalog.kopexa.com/frameworks/iso27001", ["scheme"]],
+    ["HTTP://catalog.kopexa.com/frameworks/iso27001", ["scheme"]],
+    ["krn://catalog.kopexa.com/frameworks/iso27001", ["prefix"]],
+    ["KRN:catalog.kopexa.com/frameworks/iso27001", ["prefix"]],
+    ["//Catalog.KOPEXA.com/frameworks/iso27001", ["domainCase"]],
+    [`${iso}/`, ["trailingSlash"]],
+    [`${iso}//`, ["trailingSlash"]],
+    [
+      " https://Catalog.Kopexa.com/frameworks/iso27001/ ",
+      ["whitespace", "scheme", "domainCase", "trailingSlash"],
+    ],
+  ])("normalizes %j", (input, fixes) => {
+    const result = KRN.normalize(input);
+    expect(result.krn.toString()).toBe(iso);
+    expect(result.fixes).toEqual(fixes);
+  });
+
+  it("removes trailing slashes before the version", () => {
+    const result = KRN.normalize(`${iso}/@v1`);
+    expect(result.krn.toString()).toBe(`${iso}@v1`);
+    expect(result.fixes).toEqual(["trailingSlash"]);
+  });
+
+  it("does not change resource IDs or versions", () => {
+    const result = KRN.normalize("//KOPEXA.com/frameworks/ISO27001@V1");
+    expect(result.krn.toString()).toBe("//kopexa.com/frameworks/ISO27001@V1");
+  });
+
+  it("applies only enabled fixes", () => {
+    expect(() => KRN.normalize(`${iso}/`, { trailingSlash: false })).toThrow(
+      KRNError,
+    );
+    expect(() =>
+      KRN.normalize(" https://catalog.kopexa.com/frameworks/iso27001", {
+        whitespace: false,
+      }),
+    ).toThrow(KRNError);
+    expect(
+      KRN.normalize("https://catalog.kopexa.com/frameworks/iso27001", {
+        whitespace: false,
+      }).fixes,
+    ).toEqual(["scheme"]);
+  });
+
+  it("throws the parse error for input it cannot repair", () => {
+    expect(() => KRN.normalize("https://example.com/frameworks/x")).toThrow(
+      "expected kopexa.com or {service}.kopexa.com, got example.com",
+    );
+    expect(() => KRN.normalize("  ")).toThrow(KRNError);
+    expect(KRN.tryNormalize("//kopexa.com/frameworks/iso 27001")).toBeNull();
+    expect(KRN.tryNormalize(` ${iso}`)?.fixes).toEqual(["whitespace"]);
+  });
+
+  it("keeps KRN.parse strict", () => {
+    expect(KRN.tryParse(`${iso}/`)).toBeNull();
+    expect(KRN.tryParse("//Catalog.kopexa.com/frameworks/iso27001")).toBeNull();
+  });
+});
+
 describe("KRN methods", () => {
   describe("resourceId", () => {
     it("finds framework ID", () => {
@@ -228,7 +350,8 @@ describe("KRN methods", () => {
     });
 
     it("throws for not found", () => {
-      const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+      // Widen to KRN so the missing collection is only caught at runtime
+      const k: KRN = KRN.parse("//kopexa.com/frameworks/iso27001");
       expect(() => k.resourceId("nonexistent")).toThrow(KRNError);
     });
   });
@@ -245,6 +368,25 @@ describe("KRN methods", () => {
     });
   });
 
+  describe("decodedResourceId", () => {
+    it("returns the decoded resource ID", () => {
+      const k = KRN.parse("//kopexa.com/tenants/acme-corp").child(
+        "customers",
+        encodeResourceId("Müller & Söhne GmbH"),
+      );
+      expect(k.resourceId("customers")).toBe(
+        "M_C3_BCller_20_26_20S_C3_B6hne_20GmbH",
+      );
+      expect(k.decodedResourceId("customers")).toBe("Müller & Söhne GmbH");
+      expect(k.decodedResourceId("tenants")).toBe("acme-corp");
+    });
+
+    it("throws for not found", () => {
+      const k: KRN = KRN.parse("//kopexa.com/frameworks/iso27001");
+      expect(() => k.decodedResourceId("controls")).toThrow(KRNError);
+    });
+  });
+
   describe("hasResource", () => {
     it("returns true when exists", () => {
       const k = KRN.parse("//kopexa.com/frameworks/iso27001/controls/a-5-1");
@@ -286,6 +428,187 @@ describe("KRN methods", () => {
     });
   });
 
+  describe("hierarchy", () => {
+    const control = KRN.parse(
+      "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1/guidance/g-1@v2",
+    );
+
+    it("parent keeps the version on request", () => {
+      expect(control.parent({ version: "keep" })?.toString()).toBe(
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+      );
+      expect(control.parent({ version: "drop" })?.hasVersion()).toBe(false);
+    });
+
+    it("ancestors iterates from the parent to the root", () => {
+      expect([...control.ancestors()].map((k) => k.toString())).toEqual([
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+        "//catalog.kopexa.com/frameworks/iso27001",
+      ]);
+      expect(
+        [...control.ancestors({ version: "keep" })].every(
+          (k) => k.version === "v2",
+        ),
+      ).toBe(true);
+      expect([...KRN.parse("//kopexa.com/frameworks/x").ancestors()]).toEqual(
+        [],
+      );
+    });
+
+    it("root returns the first segment", () => {
+      expect(control.root().toString()).toBe(
+        "//catalog.kopexa.com/frameworks/iso27001",
+      );
+      expect(control.root({ version: "keep" }).version).toBe("v2");
+      const root = KRN.parse("//kopexa.com/frameworks/x@v1");
+      expect(root.root().toString()).toBe("//kopexa.com/frameworks/x");
+    });
+
+    it("isAncestorOf and isDescendantOf", () => {
+      const iso = KRN.parse("//catalog.kopexa.com/frameworks/iso27001");
+      expect(iso.isAncestorOf(control)).toBe(true);
+      expect(control.isDescendantOf(iso)).toBe(true);
+      expect(control.isAncestorOf(iso)).toBe(false);
+      expect(iso.isAncestorOf(iso)).toBe(false);
+    });
+
+    it("compares whole segments", () => {
+      const iso = KRN.parse("//catalog.kopexa.com/frameworks/iso27001");
+      const iso2022 = KRN.parse(
+        "//catalog.kopexa.com/frameworks/iso27001-2022/controls/5.1",
+      );
+      expect(iso.isAncestorOf(iso2022)).toBe(false);
+    });
+
+    it("respects the service", () => {
+      const iso = KRN.parse("//kopexa.com/frameworks/iso27001");
+      expect(iso.isAncestorOf(control)).toBe(false);
+      expect(control.isDescendantOf(iso)).toBe(false);
+    });
+
+    it("matches versions on request", () => {
+      const iso = KRN.parse("//catalog.kopexa.com/frameworks/iso27001");
+      expect(iso.isAncestorOf(control, { version: "match" })).toBe(false);
+      expect(
+        iso.withVersion("v2").isAncestorOf(control, { version: "match" }),
+      ).toBe(true);
+      expect(
+        control.isDescendantOf(iso.withVersion("v2"), { version: "match" }),
+      ).toBe(true);
+    });
+
+    describe("commonAncestor", () => {
+      it("returns the deepest common KRN", () => {
+        const a = KRN.parse(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+        );
+        const b = KRN.parse(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.2",
+        );
+        expect(KRN.commonAncestor(a, b)?.toString()).toBe(
+          "//catalog.kopexa.com/frameworks/iso27001",
+        );
+      });
+
+      it("returns the ancestor itself", () => {
+        const a = KRN.parse("//catalog.kopexa.com/frameworks/iso27001");
+        expect(KRN.commonAncestor(a, control)?.equals(a)).toBe(true);
+        expect(KRN.commonAncestor(control, control)?.toString()).toBe(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1/guidance/g-1",
+        );
+      });
+
+      it("returns null without common root", () => {
+        const other = KRN.parse("//catalog.kopexa.com/frameworks/nist");
+        expect(KRN.commonAncestor(control, other)).toBeNull();
+        expect(
+          KRN.commonAncestor(control, control.withoutService()),
+        ).toBeNull();
+      });
+
+      it("keeps a shared version on request", () => {
+        const sibling = KRN.parse(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.2@v2",
+        );
+        expect(
+          KRN.commonAncestor(control, sibling, { version: "keep" })?.version,
+        ).toBe("v2");
+        expect(
+          KRN.commonAncestor(control, sibling.withVersion("v3"), {
+            version: "keep",
+          })?.hasVersion(),
+        ).toBe(false);
+        expect(KRN.commonAncestor(control, sibling)?.hasVersion()).toBe(false);
+      });
+    });
+
+    describe("slice", () => {
+      it("slices segments like Array.slice", () => {
+        expect(control.slice(0, 2).toString()).toBe(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+        );
+        expect(control.slice(1).toString()).toBe(
+          "//catalog.kopexa.com/controls/5.1.1/guidance/g-1",
+        );
+        expect(control.slice(-1).toString()).toBe(
+          "//catalog.kopexa.com/guidance/g-1",
+        );
+      });
+
+      it("keeps the version on request", () => {
+        expect(control.slice(1, undefined, { version: "keep" }).version).toBe(
+          "v2",
+        );
+        expect(control.slice(0, 3).hasVersion()).toBe(false);
+      });
+
+      it("throws on empty slices", () => {
+        try {
+          control.slice(3);
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_KRN);
+        }
+      });
+    });
+
+    describe("withResourceId", () => {
+      it("replaces a segment in the middle", () => {
+        expect(control.withResourceId("controls", "5.1.2").toString()).toBe(
+          "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.2/guidance/g-1@v2",
+        );
+        expect(
+          control
+            .withResourceId("frameworks", "iso27001-2022", { version: "drop" })
+            .toString(),
+        ).toBe(
+          "//catalog.kopexa.com/frameworks/iso27001-2022/controls/5.1.1/guidance/g-1",
+        );
+      });
+
+      it("throws on invalid resource IDs", () => {
+        try {
+          control.withResourceId("controls", "-bad");
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_RESOURCE_ID);
+        }
+      });
+
+      it("throws on unknown collections", () => {
+        // Widen the type to check the runtime error
+        const k: KRN = control;
+        try {
+          k.withResourceId("policies", "p-1");
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect((err as KRNError).code).toBe(KRNErrorCode.RESOURCE_NOT_FOUND);
+        }
+      });
+    });
+  });
+
   describe("withVersion", () => {
     it("adds version", () => {
       const k = KRN.parse("//kopexa.com/frameworks/iso27001");
@@ -429,6 +752,23 @@ describe("KRN methods", () => {
       expect(() => k.child("", "a-5-1")).toThrow(KRNError);
     });
 
+    it("throws INVALID_COLLECTION on invalid collection names", () => {
+      const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+      expect(() => k.child("Frame works!", "x")).toThrow(
+        expect.objectContaining({ code: KRNErrorCode.INVALID_COLLECTION }),
+      );
+    });
+
+    it("applies the collection rules of the KRN", () => {
+      const k = KRN.parse("//kopexa.com/frameworks/iso27001", {
+        collectionRules: { style: "camel" },
+      });
+      expect(k.child("controlObjectives", "x").toString()).toBe(
+        "//kopexa.com/frameworks/iso27001/controlObjectives/x",
+      );
+      expect(() => k.child("control-objectives", "x")).toThrow(KRNError);
+    });
+
     it("throws on invalid resource ID", () => {
       const k = KRN.parse("//kopexa.com/frameworks/iso27001");
       expect(() => k.child("controls", "-invalid")).toThrow(KRNError);
@@ -441,6 +781,416 @@ describe("KRN methods", () => {
       expect(k.path()).toBe("frameworks/iso27001/controls/a-5-1");
     });
   });
+
+  describe("relativeTo", () => {
+    const base = KRN.parse("//kopexa.com/frameworks/iso27001/controls/5.1.1");
+    const cases = [
+      { target: "//kopexa.com/frameworks/iso27001/controls/5.1.1", ref: "" },
+      {
+        target: "//kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+        ref: "@v2",
+      },
+      {
+        target: "//kopexa.com/frameworks/iso27001/controls/5.1.2",
+        ref: "../controls/5.1.2",
+      },
+      {
+        target: "//kopexa.com/frameworks/iso27001/controls/5.1.1/objectives/a",
+        ref: "objectives/a",
+      },
+      { target: "//kopexa.com/frameworks/iso27001", ref: ".." },
+      { target: "//kopexa.com/frameworks/nist", ref: "/frameworks/nist" },
+      {
+        target: "//kopexa.com/frameworks/iso27001/controls/5.1.2@v1",
+        ref: "../controls/5.1.2@v1",
+      },
+      {
+        target: "//catalog.kopexa.com/frameworks/iso27001",
+        ref: "//catalog.kopexa.com/frameworks/iso27001",
+      },
+    ];
+
+    for (const tc of cases) {
+      it(`returns "${tc.ref}" for ${tc.target}`, () => {
+        const target = KRN.parse(tc.target);
+        expect(target.relativeTo(base)).toBe(tc.ref);
+        expect(KRN.resolve(base, tc.ref).equals(target)).toBe(true);
+      });
+    }
+
+    it("steps out and back in to drop the base version", () => {
+      const versioned = KRN.parse("//kopexa.com/frameworks/iso27001@v1");
+      const target = KRN.parse("//kopexa.com/frameworks/iso27001");
+      expect(target.relativeTo(versioned)).toBe("/frameworks/iso27001");
+      expect(
+        KRN.resolve(versioned, "/frameworks/iso27001").equals(target),
+      ).toBe(true);
+    });
+  });
+});
+
+describe("KRN.resolve", () => {
+  const base = "//kopexa.com/frameworks/iso27001/controls/5.1.1@v1";
+
+  it("resolves relative paths below the base", () => {
+    expect(KRN.resolve(base, "objectives/a").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.1/objectives/a",
+    );
+  });
+
+  it("resolves parent references", () => {
+    expect(KRN.resolve(base, "../controls/5.1.2").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.2",
+    );
+    expect(KRN.resolve(base, "..").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001",
+    );
+    expect(KRN.resolve(base, "../../frameworks/nist").toString()).toBe(
+      "//kopexa.com/frameworks/nist",
+    );
+  });
+
+  it("resolves current references", () => {
+    expect(KRN.resolve(base, ".").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.1",
+    );
+    expect(KRN.resolve(base, "./objectives/a").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.1/objectives/a",
+    );
+  });
+
+  it("resolves absolute paths in the base service", () => {
+    expect(
+      KRN.resolve(
+        "//catalog.kopexa.com/frameworks/iso27001",
+        "/frameworks/nist-csf-2.0",
+      ).toString(),
+    ).toBe("//catalog.kopexa.com/frameworks/nist-csf-2.0");
+  });
+
+  it("resolves version references", () => {
+    expect(KRN.resolve(base, "@v2").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+    );
+    expect(KRN.resolve(base, "../controls/5.1.2@draft").toString()).toBe(
+      "//kopexa.com/frameworks/iso27001/controls/5.1.2@draft",
+    );
+  });
+
+  it("returns the base for empty references", () => {
+    expect(KRN.resolve(base, "").toString()).toBe(base);
+  });
+
+  it("returns complete KRNs as is", () => {
+    const other = "//isms.kopexa.com/tenants/acme-corp";
+    expect(KRN.resolve(base, other).toString()).toBe(other);
+  });
+
+  it("accepts KRN instances as base", () => {
+    expect(KRN.resolve(KRN.parse(base), "../controls/5.1.2").basename()).toBe(
+      "5.1.2",
+    );
+  });
+
+  describe("invalid references", () => {
+    const cases = [
+      { ref: "../..", code: KRNErrorCode.INVALID_KRN },
+      { ref: "../../../..", code: KRNErrorCode.INVALID_KRN },
+      { ref: "controls", code: KRNErrorCode.INVALID_KRN },
+      { ref: "objectives/a/../b", code: KRNErrorCode.INVALID_KRN },
+      { ref: "objectives/-bad", code: KRNErrorCode.INVALID_RESOURCE_ID },
+      { ref: "@", code: KRNErrorCode.INVALID_VERSION },
+      { ref: "../controls/5.1.2@-v", code: KRNErrorCode.INVALID_VERSION },
+    ];
+
+    for (const tc of cases) {
+      it(`rejects "${tc.ref}" with ${tc.code}`, () => {
+        try {
+          KRN.resolve(base, tc.ref);
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(tc.code);
+        }
+      });
+    }
+  });
+});
+
+describe("URN conversion", () => {
+  const cases = [
+    {
+      krn: "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+      urn: "urn:kopexa:catalog:frameworks:iso27001:controls:5.1.1@v2",
+    },
+    {
+      krn: "//kopexa.com/frameworks/iso27001",
+      urn: "urn:kopexa::frameworks:iso27001",
+    },
+    {
+      krn: "//isms.kopexa.com/tenants/acme-corp/workspaces/main",
+      urn: "urn:kopexa:isms:tenants:acme-corp:workspaces:main",
+    },
+    {
+      krn: "//kopexa.com/frameworks/iso_27001_2022@2022-01-15",
+      urn: "urn:kopexa::frameworks:iso_27001_2022@2022-01-15",
+    },
+  ];
+
+  for (const tc of cases) {
+    it(`converts ${tc.krn}`, () => {
+      const k = KRN.parse(tc.krn);
+      expect(k.toURN()).toBe(tc.urn);
+      expect(KRN.fromURN(tc.urn).equals(k)).toBe(true);
+    });
+  }
+
+  it("rejects reserved characters in collections", () => {
+    const k = KRN.parse("//kopexa.com/tenants/acme");
+    expect(() => k.child("a:b?c#d", "x")).toThrow(KRNError);
+    expect(() => KRN.fromURN("urn:kopexa::tenants:acme:a%3Ab:x")).toThrow(
+      KRNError,
+    );
+  });
+
+  it("round-trips kebab-case collections", () => {
+    const k = KRN.parse("//kopexa.com/tenants/acme").child(
+      "control-implementations",
+      "x",
+    );
+    expect(k.toURN()).toBe(
+      "urn:kopexa::tenants:acme:control-implementations:x",
+    );
+    expect(KRN.fromURN(k.toURN()).equals(k)).toBe(true);
+  });
+
+  it("accepts case-insensitive scheme and namespace", () => {
+    expect(
+      KRN.fromURN("URN:Kopexa:catalog:frameworks:iso27001").toString(),
+    ).toBe("//catalog.kopexa.com/frameworks/iso27001");
+  });
+
+  describe("invalid URNs", () => {
+    const invalid = [
+      { input: "", code: KRNErrorCode.EMPTY_KRN },
+      { input: "kopexa:catalog:frameworks:x", code: KRNErrorCode.INVALID_KRN },
+      { input: "urn:isbn:0451450523", code: KRNErrorCode.INVALID_DOMAIN },
+      { input: "urn", code: KRNErrorCode.INVALID_KRN },
+      { input: "urn:kopexa:catalog", code: KRNErrorCode.INVALID_KRN },
+      {
+        input: "urn:kopexa:catalog:frameworks",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa:catalog:frameworks:x?=a",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa:catalog:frameworks:x%2Fy",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa:catalog:frameworks:x%40v1",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa:catalog:frameworks:%E0",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa:Catalog:frameworks:x",
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+      {
+        input: "urn:kopexa::frameworks:-bad",
+        code: KRNErrorCode.INVALID_RESOURCE_ID,
+      },
+      {
+        input: "urn:kopexa::frameworks:x@",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        input: "urn:kopexa::frameworks:x@v",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        input: "urn:kopexa::frameworks:x@v1@v2",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa::frameworks:x:v2",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa::frameworks:iso27001:controls",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "urn:kopexa::frameworks@v1:x",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+    ];
+
+    for (const tc of invalid) {
+      it(`rejects "${tc.input}" with ${tc.code}`, () => {
+        try {
+          KRN.fromURN(tc.input);
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(tc.code);
+        }
+      });
+    }
+  });
+
+  it("tryFromURN returns null for invalid URNs", () => {
+    expect(KRN.tryFromURN("urn:isbn:0451450523")).toBeNull();
+    expect(KRN.tryFromURN("urn:kopexa::frameworks:x")).not.toBeNull();
+  });
+});
+
+describe("object form", () => {
+  it("converts to and from the structured form", () => {
+    const k = KRN.parse(
+      "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+    );
+    expect(k.toObject()).toEqual({
+      service: "catalog",
+      segments: [
+        { collection: "frameworks", resourceId: "iso27001" },
+        { collection: "controls", resourceId: "5.1.1" },
+      ],
+      version: "v2",
+    });
+    expect(KRN.fromObject(k.toObject()).equals(k)).toBe(true);
+  });
+
+  it("defaults service and version to empty", () => {
+    const k = KRN.fromObject({
+      segments: [{ collection: "frameworks", resourceId: "iso27001" }],
+    });
+    expect(k.toString()).toBe("//kopexa.com/frameworks/iso27001");
+    expect(k.toObject()).toEqual({
+      service: "",
+      segments: [{ collection: "frameworks", resourceId: "iso27001" }],
+      version: "",
+    });
+  });
+
+  it("keeps the domain of KRNs outside kopexa.com", () => {
+    const options = { domain: "kopexa.test" };
+    const k = KRN.parse("//catalog.kopexa.test/frameworks/iso27001", options);
+    expect(k.toObject()).toEqual({
+      service: "catalog",
+      segments: [{ collection: "frameworks", resourceId: "iso27001" }],
+      version: "",
+      domain: "kopexa.test",
+    });
+    expect(KRN.fromObject(k.toObject(), options).equals(k)).toBe(true);
+    try {
+      KRN.fromObject(k.toObject());
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_DOMAIN);
+      expect((err as KRNError).message).toBe(
+        "expected domain kopexa.com, got kopexa.test",
+      );
+    }
+  });
+
+  it("tryFromObject accepts the same objects as fromObject", () => {
+    const obj = {
+      segments: [{ collection: "frameworks", resourceId: "iso27001" }],
+      domain: "kopexa.test",
+    };
+    expect(KRN.tryFromObject(obj, { domain: "kopexa.test" })?.toString()).toBe(
+      "//kopexa.test/frameworks/iso27001",
+    );
+    expect(KRN.tryFromObject(obj)).toBeNull();
+  });
+
+  it("returns a copy of the segments", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+    const obj = k.toObject();
+    const seg = obj.segments[0];
+    if (seg) {
+      seg.resourceId = "changed";
+    }
+    expect(k.resourceId("frameworks")).toBe("iso27001");
+  });
+
+  it("toJSON returns the canonical string", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001@v1");
+    expect(k.toJSON()).toBe("//kopexa.com/frameworks/iso27001@v1");
+  });
+
+  describe("invalid objects", () => {
+    const invalid = [
+      { obj: null, code: KRNErrorCode.INVALID_KRN },
+      { obj: { segments: "frameworks/x" }, code: KRNErrorCode.INVALID_KRN },
+      { obj: { segments: [] }, code: KRNErrorCode.INVALID_KRN },
+      {
+        obj: { segments: [{ collection: "a" }] },
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        obj: { segments: [{ collection: "", resourceId: "x" }] },
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        obj: { segments: [{ collection: "a/b", resourceId: "x" }] },
+        code: KRNErrorCode.INVALID_COLLECTION,
+      },
+      {
+        obj: { segments: [{ collection: "a b", resourceId: "x" }] },
+        code: KRNErrorCode.INVALID_COLLECTION,
+      },
+      {
+        obj: { segments: [{ collection: "a", resourceId: "-x" }] },
+        code: KRNErrorCode.INVALID_RESOURCE_ID,
+      },
+      {
+        obj: {
+          service: "Bad",
+          segments: [{ collection: "a", resourceId: "x" }],
+        },
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+      {
+        obj: {
+          segments: [{ collection: "a", resourceId: "x" }],
+          version: "-v",
+        },
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        obj: { segments: [{ collection: "a", resourceId: "x" }], version: 2 },
+        code: KRNErrorCode.INVALID_KRN,
+      },
+    ];
+
+    for (const tc of invalid) {
+      it(`rejects ${JSON.stringify(tc.obj)}`, () => {
+        try {
+          KRN.fromObject(
+            tc.obj as unknown as Parameters<typeof KRN.fromObject>[0],
+          );
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(tc.code);
+        }
+      });
+    }
+  });
+
+  it("tryFromObject returns null for invalid objects", () => {
+    expect(KRN.tryFromObject({ segments: [] })).toBeNull();
+    expect(
+      KRN.tryFromObject({ segments: [{ collection: "a", resourceId: "x" }] }),
+    ).not.toBeNull();
+  });
 });
 
 describe("KRNBuilder", () => {
@@ -486,6 +1236,22 @@ describe("KRNBuilder", () => {
     expect(() => krn().resource("", "iso27001").build()).toThrow(KRNError);
   });
 
+  it("throws INVALID_COLLECTION on invalid collection names", () => {
+    expect(() => krn().resource("Frame works!", "x").build()).toThrow(
+      expect.objectContaining({
+        code: KRNErrorCode.INVALID_COLLECTION,
+        message: "invalid collection name: Frame works!",
+      }),
+    );
+  });
+
+  it("applies collection rules from the options", () => {
+    const builder = new KRNBuilder({ collectionRules: { style: "lower" } });
+    expect(() =>
+      builder.resource("control-implementations", "x").build(),
+    ).toThrow(KRNError);
+  });
+
   it("throws on invalid resource ID", () => {
     expect(() => krn().resource("frameworks", "-invalid").build()).toThrow(
       KRNError,
@@ -547,6 +1313,66 @@ describe("validation functions", () => {
     });
   });
 
+  describe("isValidCollection", () => {
+    it("accepts names of any style by default", () => {
+      expect(isValidCollection("frameworks")).toBe(true);
+      expect(isValidCollection("control-implementations")).toBe(true);
+      expect(isValidCollection("controlImplementations")).toBe(true);
+      expect(isValidCollection("controls_v2")).toBe(true);
+      expect(isValidCollection("Frameworks")).toBe(true);
+      expect(isValidCollection("v1")).toBe(true);
+      expect(isValidCollection("a")).toBe(true);
+      expect(isValidCollection("a".repeat(300))).toBe(true);
+    });
+
+    it("rejects whitespace and punctuation by default", () => {
+      expect(isValidCollection("")).toBe(false);
+      expect(isValidCollection("frame works")).toBe(false);
+      expect(isValidCollection("frameworks!")).toBe(false);
+      expect(isValidCollection("a:b")).toBe(false);
+      expect(isValidCollection("-frameworks")).toBe(false);
+      expect(isValidCollection(".frameworks")).toBe(false);
+    });
+
+    it("checks kebab-case names", () => {
+      const kebab = { style: "kebab" } as const;
+      expect(isValidCollection("control-implementations", kebab)).toBe(true);
+      expect(isValidCollection("v1", kebab)).toBe(true);
+      expect(isValidCollection("Frameworks", kebab)).toBe(false);
+      expect(isValidCollection("controlImplementations", kebab)).toBe(false);
+      expect(isValidCollection("1frameworks", kebab)).toBe(false);
+      expect(isValidCollection("frameworks-", kebab)).toBe(false);
+      expect(isValidCollection("control--implementations", kebab)).toBe(false);
+      expect(isValidCollection("control_implementations", kebab)).toBe(false);
+    });
+
+    it("checks the style", () => {
+      expect(isValidCollection("controls", { style: "lower" })).toBe(true);
+      expect(
+        isValidCollection("control-implementations", { style: "lower" }),
+      ).toBe(false);
+      expect(
+        isValidCollection("controlImplementations", { style: "camel" }),
+      ).toBe(true);
+      expect(
+        isValidCollection("control-implementations", { style: "camel" }),
+      ).toBe(false);
+      expect(
+        isValidCollection("ControlImplementations", { style: "camel" }),
+      ).toBe(false);
+    });
+
+    it("checks the maximum length", () => {
+      expect(isValidCollection("controls", { maxLength: 8 })).toBe(true);
+      expect(isValidCollection("controls", { maxLength: 7 })).toBe(false);
+    });
+
+    it("checks the plural form", () => {
+      expect(isValidCollection("controls", { plural: true })).toBe(true);
+      expect(isValidCollection("guidance", { plural: true })).toBe(false);
+    });
+  });
+
   describe("isValidVersion", () => {
     it("accepts valid versions with v prefix", () => {
       expect(isValidVersion("v1")).toBe(true);
@@ -589,6 +1415,25 @@ describe("validation functions", () => {
     });
   });
 
+  describe("isValidDomain", () => {
+    it("accepts lowercase DNS names", () => {
+      expect(isValidDomain("kopexa.com")).toBe(true);
+      expect(isValidDomain("kopexa.test")).toBe(true);
+      expect(isValidDomain("krn.eu-1.example.org")).toBe(true);
+      expect(isValidDomain("localhost")).toBe(true);
+    });
+
+    it("rejects invalid domains", () => {
+      expect(isValidDomain("")).toBe(false);
+      expect(isValidDomain("Kopexa.com")).toBe(false);
+      expect(isValidDomain("kopexa..com")).toBe(false);
+      expect(isValidDomain(".kopexa.com")).toBe(false);
+      expect(isValidDomain("-kopexa.com")).toBe(false);
+      expect(isValidDomain("kopexa.com/x")).toBe(false);
+      expect(isValidDomain(`${"a".repeat(64)}.com`)).toBe(false);
+    });
+  });
+
   describe("isValidService", () => {
     it("accepts valid service names", () => {
       expect(isValidService("catalog")).toBe(true);
@@ -609,6 +1454,40 @@ describe("validation functions", () => {
     });
   });
 
+  describe("splitDomain", () => {
+    it("splits off the service", () => {
+      expect(splitDomain("kopexa.com", "kopexa.com")).toEqual({ service: "" });
+      expect(splitDomain("catalog.kopexa.test", "kopexa.test")).toEqual({
+        service: "catalog",
+      });
+      expect(splitDomain("*.kopexa.com", "kopexa.com", "*")).toEqual({
+        service: "*",
+      });
+    });
+
+    it("returns errors for other domains and invalid services", () => {
+      for (const [domain, wildcard, message] of [
+        ["Catalog.kopexa.com", undefined, "invalid service name: Catalog"],
+        ["*.kopexa.com", undefined, "invalid service name: *"],
+        [
+          "example.com",
+          undefined,
+          "expected kopexa.com or {service}.kopexa.com, got example.com",
+        ],
+        [
+          "example.com",
+          "*",
+          "expected kopexa.com, {service}.kopexa.com or *.kopexa.com, got example.com",
+        ],
+      ] as const) {
+        const err = splitDomain(domain, "kopexa.com", wildcard);
+        expect(err).toBeInstanceOf(KRNError);
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_DOMAIN);
+        expect((err as KRNError).message).toBe(message);
+      }
+    });
+  });
+
   describe("safeResourceId", () => {
     it("converts invalid characters", () => {
       expect(safeResourceId("with space")).toBe("with-space");
@@ -630,6 +1509,222 @@ describe("validation functions", () => {
       expect(safeResourceId("a".repeat(250))).toBe("a".repeat(200));
     });
   });
+
+  describe("encodeResourceId", () => {
+    const cases = [
+      { input: "iso27001", expected: "iso27001" },
+      { input: "5.1.1", expected: "5.1.1" },
+      { input: "Hello World!", expected: "Hello_20World_21" },
+      { input: "Hello_World?", expected: "Hello_5FWorld_3F" },
+      { input: "Größe/Maße", expected: "Gr_C3_B6_C3_9Fe_2FMa_C3_9Fe" },
+      {
+        input: "A.5.1 Informationssicherheit",
+        expected: "A.5.1_20Informationssicherheit",
+      },
+      { input: "-draft", expected: "x_2Ddraft" },
+      { input: "v1.", expected: "v1_2E" },
+      { input: " ", expected: "x_20" },
+      { input: "x ", expected: "xx_20" },
+      { input: "x_", expected: "xx_5F" },
+    ];
+
+    for (const tc of cases) {
+      it(`encodes ${JSON.stringify(tc.input)}`, () => {
+        const encoded = encodeResourceId(tc.input);
+        expect(encoded).toBe(tc.expected);
+        expect(isValidResourceId(encoded)).toBe(true);
+        expect(decodeResourceId(encoded)).toBe(tc.input);
+      });
+    }
+
+    it("keeps values that collide in safeResourceId distinct", () => {
+      expect(safeResourceId("Hello World!")).toBe(
+        safeResourceId("Hello World?"),
+      );
+      expect(encodeResourceId("Hello World!")).not.toBe(
+        encodeResourceId("Hello World?"),
+      );
+    });
+
+    it("round-trips emoji and other scripts", () => {
+      for (const s of ["😀 ok", "日本語", "Ωmega", "a/b/c", "100%"]) {
+        const encoded = encodeResourceId(s);
+        expect(isValidResourceId(encoded)).toBe(true);
+        expect(decodeResourceId(encoded)).toBe(s);
+      }
+    });
+
+    it("throws on empty input", () => {
+      expect(() => encodeResourceId("")).toThrow(KRNError);
+    });
+
+    it("throws on lone surrogates", () => {
+      expect(() => encodeResourceId("a\uD800b")).toThrow(
+        "cannot encode malformed Unicode string",
+      );
+    });
+
+    it("throws if the encoded ID is too long", () => {
+      expect(encodeResourceId("a".repeat(200))).toBe("a".repeat(200));
+      try {
+        encodeResourceId("ä".repeat(40));
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_RESOURCE_ID);
+      }
+    });
+  });
+
+  describe("decodeResourceId", () => {
+    it("returns IDs without escapes unchanged", () => {
+      expect(decodeResourceId("iso27001")).toBe("iso27001");
+      expect(decodeResourceId("x")).toBe("x");
+    });
+
+    it("throws on invalid resource IDs", () => {
+      expect(() => decodeResourceId("-bad")).toThrow(KRNError);
+    });
+
+    it("throws on malformed escapes", () => {
+      expect(() => decodeResourceId("a_2")).toThrow(
+        "invalid escape sequence in resource ID: a_2",
+      );
+      expect(() => decodeResourceId("a_zz1")).toThrow(KRNError);
+      expect(() => decodeResourceId("a_2d")).toThrow(KRNError);
+    });
+
+    it("throws on invalid UTF-8", () => {
+      expect(() => decodeResourceId("a_C3")).toThrow(
+        "resource ID is not valid UTF-8: a_C3",
+      );
+    });
+  });
+});
+
+describe("versions", () => {
+  describe("parseVersion", () => {
+    const cases = [
+      { version: "v1", kind: "semver", numbers: [1], prerelease: [] },
+      { version: "v1.2.3", kind: "semver", numbers: [1, 2, 3], prerelease: [] },
+      { version: "1.0.0", kind: "semver", numbers: [1, 0, 0], prerelease: [] },
+      {
+        version: "v2.0.0-rc.1",
+        kind: "semver",
+        numbers: [2, 0, 0],
+        prerelease: ["rc", "1"],
+      },
+      { version: "2022", kind: "date", numbers: [2022], prerelease: [] },
+      {
+        version: "2022-01-15",
+        kind: "date",
+        numbers: [2022, 1, 15],
+        prerelease: [],
+      },
+      { version: "draft", kind: "keyword", numbers: [], prerelease: [] },
+      { version: "latest", kind: "keyword", numbers: [], prerelease: [] },
+      { version: "2022-13", kind: "other", numbers: [], prerelease: [] },
+      { version: "final", kind: "other", numbers: [], prerelease: [] },
+      { version: "v1.2.3.4", kind: "other", numbers: [], prerelease: [] },
+    ];
+
+    for (const tc of cases) {
+      it(`classifies ${tc.version} as ${tc.kind}`, () => {
+        expect(parseVersion(tc.version)).toEqual({
+          raw: tc.version,
+          kind: tc.kind,
+          numbers: tc.numbers,
+          prerelease: tc.prerelease,
+        });
+      });
+    }
+
+    it("throws on invalid versions", () => {
+      try {
+        parseVersion("-v1");
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect(err).toBeInstanceOf(KRNError);
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_VERSION);
+      }
+    });
+  });
+
+  describe("compareVersions", () => {
+    it("sorts versions in the documented order", () => {
+      const sorted = [
+        "draft",
+        "alpha",
+        "final",
+        "2021",
+        "2022",
+        "2022-01",
+        "2022-01-15",
+        "2022-02-01",
+        "v1.0.0-alpha",
+        "v1.0.0-alpha.1",
+        "v1.0.0-alpha.beta",
+        "v1.0.0-beta.2",
+        "v1.0.0-beta.11",
+        "v1.0.0-rc.1",
+        "v1",
+        "v1.2",
+        "v1.10",
+        "v2",
+        "latest",
+      ];
+      const shuffled = [...sorted].reverse();
+      expect(shuffled.sort(compareVersions)).toEqual(sorted);
+    });
+
+    it("compares semver numerically", () => {
+      expect(compareVersions("v1.10.0", "v1.9.0")).toBe(1);
+      expect(compareVersions("v1.2", "v1.2.1")).toBe(-1);
+    });
+
+    it("returns 0 only for identical versions", () => {
+      expect(compareVersions("v1.2.3", "v1.2.3")).toBe(0);
+      expect(compareVersions("1.0.0", "v1")).not.toBe(0);
+      expect(["v1.0.0", "1.0", "v1"].sort(compareVersions)).toEqual([
+        "1.0",
+        "v1",
+        "v1.0.0",
+      ]);
+    });
+
+    it("throws on invalid versions", () => {
+      expect(() => compareVersions("v", "v1")).toThrow(KRNError);
+    });
+  });
+
+  describe("compareVersion", () => {
+    it("compares the versions of KRNs", () => {
+      const a = KRN.parse("//kopexa.com/frameworks/iso27001@v1.2.0");
+      const b = KRN.parse("//kopexa.com/frameworks/iso27001@v1.10.0");
+      expect(a.compareVersion(b)).toBe(-1);
+      expect(b.compareVersion(a)).toBe(1);
+      expect(a.compareVersion(a)).toBe(0);
+    });
+
+    it("sorts unversioned KRNs first", () => {
+      const unversioned = KRN.parse("//kopexa.com/frameworks/iso27001");
+      const draft = unversioned.withVersion("draft");
+      expect(unversioned.compareVersion(draft)).toBe(-1);
+      expect(draft.compareVersion(unversioned)).toBe(1);
+      expect(unversioned.compareVersion(unversioned)).toBe(0);
+    });
+
+    it("finds the newest released version", () => {
+      const mappings = ["v1.0.0", "v2.0.0-rc.1", "v1.1.0", "draft"].map((v) =>
+        KRN.parse("//catalog.kopexa.com/mappings/iso-to-nist").withVersion(v),
+      );
+      const released = mappings.filter((k) => {
+        const v = parseVersion(k.version);
+        return v.kind === "semver" && v.prerelease.length === 0;
+      });
+      const newest = released.sort((a, b) => a.compareVersion(b)).at(-1);
+      expect(newest?.version).toBe("v1.1.0");
+    });
+  });
 });
 
 describe("getResource", () => {
@@ -668,10 +1763,9 @@ describe("KRNErrorCode", () => {
     expect(KRNErrorCode.RESOURCE_NOT_FOUND).toBe("RESOURCE_NOT_FOUND");
   });
 
-  it("has exactly 6 error codes (matching Go)", () => {
+  it("starts with the 6 Go error codes, followed by extensions", () => {
     const codes = Object.keys(KRNErrorCode);
-    expect(codes).toHaveLength(6);
-    expect(codes).toEqual([
+    expect(codes.slice(0, 6)).toEqual([
       "EMPTY_KRN",
       "INVALID_KRN",
       "INVALID_DOMAIN",
@@ -679,6 +1773,11 @@ describe("KRNErrorCode", () => {
       "INVALID_VERSION",
       "RESOURCE_NOT_FOUND",
     ]);
+    expect(codes.slice(6)).toEqual([
+      "INVALID_HIERARCHY",
+      "UNKNOWN_SERVICE",
+      "INVALID_COLLECTION",
+    ]);
   });
 
   it("uses INVALID_DOMAIN for invalid service names (Go compatibility)", () => {
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  krnReplacer,
+  krnReviver,
+} from "./index.js";
+
+const control = "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1";
+const framework = "//catalog.kopexa.com/frameworks/iso27001@v2";
+
+describe("JSON.stringify", () => {
+  it("writes KRNs as canonical strings", () => {
+    const k = KRN.parse(control);
+    expect(JSON.stringify(k)).toBe(`"${control}"`);
+    expect(JSON.stringify({ control: k })).toBe(`{"control":"${control}"}`);
+  });
+});
+
+describe("krnReviver", () => {
+  const text = JSON.stringify({
+    name: "audit",
+    control,
+    items: [{ framework }, { framework: control }],
+  });
+
+  it("revives KRNs at configured paths", () => {
+    const body = JSON.parse(
+      text,
+      krnReviver({ paths: ["control", "items.*.framework"] }),
+    );
+    expect(body.name).toBe("audit");
+    expect(body.control).toBeInstanceOf(KRN);
+    expect(body.control.toString()).toBe(control);
+    expect(body.items[0].framework).toBeInstanceOf(KRN);
+    expect(body.items[1].framework.basename()).toBe("5.1.1");
+  });
+
+  it("leaves values outside the paths alone", () => {
+    const body = JSON.parse(text, krnReviver({ paths: ["control"] }));
+    expect(body.control).toBeInstanceOf(KRN);
+    expect(body.items[0].framework).toBe(framework);
+  });
+
+  it("ignores missing keys", () => {
+    const body = JSON.parse(text, krnReviver({ paths: ["missing.*.x"] }));
+    expect(body.control).toBe(control);
+  });
+
+  it("revives the root value", () => {
+    const k = JSON.parse(JSON.stringify(control), krnReviver({ paths: [""] }));
+    expect(k).toBeInstanceOf(KRN);
+  });
+
+  it("throws on invalid values at configured paths", () => {
+    try {
+      JSON.parse(text, krnReviver({ paths: ["name"] }));
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(KRNError);
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_KRN);
+    }
+    expect(() =>
+      JSON.parse('{"control":42}', krnReviver({ paths: ["control"] })),
+    ).toThrow("expected KRN string, got number");
+  });
+
+  it("revives every valid KRN without paths", () => {
+    const body = JSON.parse(text, krnReviver());
+    expect(body.name).toBe("audit");
+    expect(body.control).toBeInstanceOf(KRN);
+    expect(body.items[0].framework).toBeInstanceOf(KRN);
+  });
+
+  it("revives other formats", () => {
+    const urn = JSON.parse(
+      '{"ref":"urn:kopexa:catalog:frameworks:iso27001"}',
+      krnReviver({ format: "urn" }),
+    );
+    expect(urn.ref.toString()).toBe("//catalog.kopexa.com/frameworks/iso27001");
+
+    const obj = JSON.parse(
+      '{"ref":{"segments":[{"collection":"frameworks","resourceId":"iso27001"}]},"n":1}',
+      krnReviver({ format: "object", paths: ["ref"] }),
+    );
+    expect(obj.ref.toString()).toBe("//kopexa.com/frameworks/iso27001");
+    expect(obj.n).toBe(1);
+  });
+});
+
+describe("krnReplacer", () => {
+  const body = {
+    control: KRN.parse(control),
+    items: [{ framework: KRN.parse(framework) }],
+  };
+
+  it("writes KRNs in the configured format", () => {
+    expect(JSON.stringify(body, krnReplacer({ format: "urn" }))).toBe(
+      JSON.stringify({
+        control: "urn:kopexa:catalog:frameworks:iso27001:controls:5.1.1",
+        items: [{ framework: "urn:kopexa:catalog:frameworks:iso27001@v2" }],
+      }),
+    );
+  });
+
+  it("writes the object form", () => {
+    const json = JSON.stringify(body, krnReplacer({ format: "object" }));
+    expect(JSON.parse(json).items[0].framework).toEqual({
+      service: "catalog",
+      segments: [{ collection: "frameworks", resourceId: "iso27001" }],
+      version: "v2",
+    });
+    const revived = JSON.parse(json, krnReviver({ format: "object" }));
+    expect(revived.control.equals(body.control)).toBe(true);
+    expect(revived.items[0].framework.equals(body.items[0]?.framework)).toBe(
+      true,
+    );
+  });
+
+  it("only affects configured paths", () => {
+    const json = JSON.stringify(
+      body,
+      krnReplacer({ format: "urn", paths: ["items.*.framework"] }),
+    );
+    expect(JSON.parse(json)).toEqual({
+      control,
+      items: [{ framework: "urn:kopexa:catalog:frameworks:iso27001@v2" }],
+    });
+    // The input is not modified
+    expect(body.items[0]?.framework).toBeInstanceOf(KRN);
+  });
+
+  it("replaces the root value", () => {
+    expect(
+      JSON.stringify(body.control, krnReplacer({ format: "urn", paths: [""] })),
+    ).toBe('"urn:kopexa:catalog:frameworks:iso27001:controls:5.1.1"');
+  });
+
+  it("throws on non-KRN values at configured paths", () => {
+    expect(() =>
+      JSON.stringify({ control }, krnReplacer({ paths: ["control"] })),
+    ).toThrow("expected KRN at control");
+  });
+});
+
+describe("parse options", () => {
+  const parseOptions = { domain: "kopexa.test" };
+  const test = "//catalog.kopexa.test/frameworks/iso27001";
+
+  it("revives KRNs under another domain", () => {
+    const body = JSON.parse(
+      JSON.stringify({ ref: test }),
+      krnReviver({ paths: ["ref"], parseOptions }),
+    );
+    expect(body.ref).toBeInstanceOf(KRN);
+    expect(body.ref.domain).toBe("kopexa.test");
+    expect(() =>
+      JSON.parse(JSON.stringify({ ref: test }), krnReviver({ paths: ["ref"] })),
+    ).toThrow(KRNError);
+  });
+
+  it("round-trips the object form", () => {
+    const k = KRN.parse(test, parseOptions);
+    const text = JSON.stringify({ ref: k }, krnReplacer({ format: "object" }));
+    const body = JSON.parse(
+      text,
+      krnReviver({ paths: ["ref"], format: "object", parseOptions }),
+    );
+    expect(body.ref.equals(k)).toBe(true);
+    expect(
+      JSON.parse(text, krnReviver({ format: "object" })).ref,
+    ).not.toBeInstanceOf(KRN);
+  });
+
+  it("reads URNs under another domain", () => {
+    const body = JSON.parse(
+      '{"ref":"urn:kopexa:catalog:frameworks:iso27001"}',
+      krnReviver({ format: "urn", parseOptions }),
+    );
+    expect(body.ref.toString()).toBe(test);
+  });
+});
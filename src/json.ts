@@ -0,0 +1,197 @@
+/**
+ * JSON helpers - revive KRN strings into KRN instances with JSON.parse and
+ * control how KRNs are written with JSON.stringify.
+ *
+ * Paths select values by dot-separated keys; `*` matches any key or array
+ * index and "" selects the root value:
+ *   control             the "control" property of the root object
+ *   items.*.framework   the "framework" property of every item
+ *
+ * Example:
+ *   const body = JSON.parse(text, krnReviver({ paths: ["items.*.control"] }));
+ *   body.items[0].control; // KRN
+ *
+ *   JSON.stringify(body, krnReplacer({ format: "object" }));
+ */
+
+import { KRN, KRNError, KRNErrorCode, type KRNParseOptions } from "./krn.js";
+
+/** Serialized form of a KRN in JSON */
+export type KRNJSONFormat = "string" | "object" | "urn";
+
+/** Options for krnReviver and krnReplacer */
+export interface KRNJSONOptions {
+  /**
+   * Paths of the KRN values. Values at these paths must be valid KRNs.
+   * If unset, every value that is a valid KRN is converted.
+   */
+  paths?: string[];
+  /** Serialized form of the KRNs. Defaults to "string" (canonical form). */
+  format?: KRNJSONFormat;
+  /** Options for reading the KRNs, e.g. another base domain, like for KRN.parse */
+  parseOptions?: KRNParseOptions;
+}
+
+/** Path token matching any key or array index */
+const WILDCARD = "*";
+
+/** Split paths into their keys. */
+function splitPaths(paths: string[]): string[][] {
+  return paths.map((path) => (path === "" ? [] : path.split(".")));
+}
+
+/**
+ * Apply fn to the values at path, copying the objects along the way so the
+ * input is not modified.
+ */
+function mapAt(
+  value: unknown,
+  path: string[],
+  fn: (value: unknown) => unknown,
+): unknown {
+  const [key, ...rest] = path;
+  if (key === undefined) {
+    return fn(value);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const copy = (Array.isArray(value) ? [...value] : { ...value }) as Record<
+    string,
+    unknown
+  >;
+  for (const k of Object.keys(copy)) {
+    if (key === WILDCARD || key === k) {
+      copy[k] = mapAt(copy[k], rest, fn);
+    }
+  }
+  return copy;
+}
+
+/**
+ * Read a KRN from its serialized form.
+ * @throws {KRNError} if the value is not a valid KRN in the given format
+ */
+function fromJSON(
+  value: unknown,
+  format: KRNJSONFormat,
+  options: KRNParseOptions,
+): KRN {
+  if (format === "object") {
+    return KRN.fromObject(
+      value as Parameters<typeof KRN.fromObject>[0],
+      options,
+    );
+  }
+  if (typeof value !== "string") {
+    throw new KRNError(
+      KRNErrorCode.INVALID_KRN,
+      `expected KRN string, got ${value === null ? "null" : typeof value}`,
+    );
+  }
+  return format === "urn"
+    ? KRN.fromURN(value, options)
+    : KRN.parse(value, options);
+}
+
+/** Write a KRN in its serialized form. */
+function toJSON(k: KRN, format: KRNJSONFormat): unknown {
+  switch (format) {
+    case "object":
+      return k.toObject();
+    case "urn":
+      return k.toURN();
+    default:
+      return k.toString();
+  }
+}
+
+/**
+ * Create a JSON.parse reviver that turns serialized KRNs into KRN instances.
+ *
+ * With paths, the values at those paths are converted and an invalid value
+ * throws. Without paths, every valid KRN is converted and other values are
+ * left as they are.
+ * @throws {KRNError} from JSON.parse if a value at a configured path is invalid
+ */
+export function krnReviver(
+  options: KRNJSONOptions = {},
+): (key: string, value: unknown) => unknown {
+  const format = options.format ?? "string";
+  const parseOptions = options.parseOptions ?? {};
+
+  if (options.paths) {
+    const paths = splitPaths(options.paths);
+    return (key, value) => {
+      // The root is revived last, so all paths can be applied at once
+      if (key !== "") {
+        return value;
+      }
+      let result = value;
+      for (const path of paths) {
+        result = mapAt(result, path, (v) => fromJSON(v, format, parseOptions));
+      }
+      return result;
+    };
+  }
+
+  return (_key, value) => {
+    if (format === "object" && (typeof value !== "object" || value === null)) {
+      return value;
+    }
+    if (format !== "object" && typeof value !== "string") {
+      return value;
+    }
+    try {
+      return fromJSON(value, format, parseOptions);
+    } catch {
+      return value;
+    }
+  };
+}
+
+/**
+ * Create a JSON.stringify replacer that writes KRN instances in the given
+ * format. With paths, only KRNs at those paths are affected; other KRNs are
+ * written as canonical strings by KRN.toJSON.
+ * @throws {KRNError} from JSON.stringify if a value at a configured path is
+ *   not a KRN
+ */
+export function krnReplacer(
+  options: KRNJSONOptions = {},
+): (this: unknown, key: string, value: unknown) => unknown {
+  const format = options.format ?? "string";
+
+  if (options.paths) {
+    const paths = splitPaths(options.paths);
+    return function (this: unknown, key, value) {
+      // The root is replaced first, so all paths can be applied at once
+      if (key !== "" || this === null || typeof this !== "object") {
+        return value;
+      }
+      // The original value, before KRN.toJSON was applied
+      let result = (this as Record<string, unknown>)[key];
+      for (const path of paths) {
+        result = mapAt(result, path, (v) => {
+          if (!(v instanceof KRN)) {
+            throw new KRNError(
+              KRNErrorCode.INVALID_KRN,
+              `expected KRN at ${path.join(".") || "root"}`,
+            );
+          }
+          return toJSON(v, format);
+        });
+      }
+      return result;
+    };
+  }
+
+  return function (this: unknown, key, value) {
+    if (this === null || typeof this !== "object") {
+      return value;
+    }
+    // The original value, before KRN.toJSON was applied
+    const original = (this as Record<string, unknown>)[key];
+    return original instanceof KRN ? toJSON(original, format) : value;
+  };
+}
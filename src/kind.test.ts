@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import {
+  createKRNParser,
+  KRN,
+  KRNBuilder,
+  KRNError,
+  KRNErrorCode,
+  KRNKindRegistry,
+} from "./index.js";
+
+function kinds(): KRNKindRegistry {
+  return new KRNKindRegistry()
+    .register({
+      kind: "Framework",
+      collection: "frameworks",
+      singular: "framework",
+    })
+    .register({
+      kind: "Control",
+      collection: "controls",
+      singular: "control",
+      parent: "Framework",
+    })
+    .register({
+      kind: "ControlObjective",
+      collection: "objectives",
+      title: "Control Objective",
+      parent: "Control",
+    });
+}
+
+const CONTROL = "//kopexa.com/frameworks/iso27001/controls/5.1.1";
+
+describe("KRNKindRegistry", () => {
+  describe("register", () => {
+    it("tracks registered kinds", () => {
+      const registry = kinds();
+      expect(registry.has("Control")).toBe(true);
+      expect(registry.has("controls")).toBe(false);
+      expect(registry.kinds().map((k) => k.kind)).toEqual([
+        "Framework",
+        "Control",
+        "ControlObjective",
+      ]);
+      expect(registry.get("Control")).toEqual({
+        kind: "Control",
+        collection: "controls",
+        singular: "control",
+        parent: "Framework",
+      });
+      expect(registry.forCollection("controls")?.kind).toBe("Control");
+      expect(registry.forCollection("tenants")).toBeUndefined();
+    });
+
+    it("defaults the singular to the collection", () => {
+      expect(kinds().get("ControlObjective")?.singular).toBe("objectives");
+    });
+
+    it("copies the kind", () => {
+      const kind = { kind: "Risk", collection: "risks" };
+      const registry = new KRNKindRegistry().register(kind);
+      kind.collection = "threats";
+      expect(registry.get("Risk")?.collection).toBe("risks");
+      expect(Object.isFrozen(registry.get("Risk"))).toBe(true);
+    });
+
+    it("replaces an existing registration", () => {
+      const registry = kinds().register({
+        kind: "Control",
+        collection: "safeguards",
+      });
+      expect(registry.get("Control")?.collection).toBe("safeguards");
+      expect(registry.forCollection("safeguards")?.kind).toBe("Control");
+      expect(registry.forCollection("controls")).toBeUndefined();
+    });
+
+    it("rejects collections of another kind", () => {
+      expect(() =>
+        kinds().register({ kind: "Safeguard", collection: "controls" }),
+      ).toThrow("collection controls already belongs to kind Control");
+    });
+
+    it("rejects invalid kinds and collections", () => {
+      expect(() =>
+        new KRNKindRegistry().register({ kind: "", collection: "risks" }),
+      ).toThrow(KRNError);
+      try {
+        new KRNKindRegistry().register({ kind: "Risk", collection: "ri sks" });
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_COLLECTION);
+      }
+    });
+
+    it("checks collections against the collection rules", () => {
+      const registry = new KRNKindRegistry({
+        collectionRules: { style: "camel" },
+      });
+      expect(() =>
+        registry.register({
+          kind: "ControlObjective",
+          collection: "controlObjectives",
+        }),
+      ).not.toThrow();
+    });
+  });
+
+  describe("kindOf", () => {
+    it("returns the kind of the basename collection", () => {
+      const registry = kinds();
+      expect(registry.kindOf(KRN.parse(CONTROL))?.kind).toBe("Control");
+      expect(
+        registry.kindOf(KRN.parse("//kopexa.com/frameworks/iso27001"))?.kind,
+      ).toBe("Framework");
+      expect(
+        registry.kindOf(KRN.parse("//kopexa.com/tenants/acme")),
+      ).toBeUndefined();
+    });
+
+    it("returns the declared parent kind", () => {
+      const registry = kinds();
+      expect(registry.parentKindOf(KRN.parse(CONTROL))?.kind).toBe("Framework");
+      expect(
+        registry.parentKindOf(KRN.parse("//kopexa.com/controls/5.1.1"))?.kind,
+      ).toBe("Framework");
+      expect(
+        registry.parentKindOf(KRN.parse("//kopexa.com/frameworks/iso27001")),
+      ).toBeUndefined();
+    });
+
+    it("returns the kinds of all segments", () => {
+      const k = KRN.parse("//kopexa.com/tenants/acme/controls/5.1.1");
+      expect(
+        kinds()
+          .kindsOf(k)
+          .map((kind) => kind?.kind),
+      ).toEqual([undefined, "Control"]);
+    });
+  });
+
+  describe("labelOf", () => {
+    it("labels the resource in its parent", () => {
+      expect(kinds().labelOf(KRN.parse(CONTROL))).toBe(
+        "Control 5.1.1 in Framework iso27001",
+      );
+    });
+
+    it("labels root resources", () => {
+      expect(kinds().labelOf(KRN.parse("//kopexa.com/frameworks/nist"))).toBe(
+        "Framework nist",
+      );
+    });
+
+    it("uses the title and only the parent resource", () => {
+      expect(kinds().labelOf(KRN.parse(`${CONTROL}/objectives/a`))).toBe(
+        "Control Objective a in Control 5.1.1",
+      );
+    });
+
+    it("shows unregistered collections by name", () => {
+      expect(
+        kinds().labelOf(KRN.parse("//kopexa.com/tenants/acme/controls/c-1")),
+      ).toBe("Control c-1 in tenants acme");
+    });
+  });
+});
+
+describe("KRN kinds", () => {
+  it("uses the registry of the parse options", () => {
+    const k = KRN.parse(CONTROL, { kinds: kinds() });
+    expect(k.kind()?.kind).toBe("Control");
+    expect(k.parentKind()?.kind).toBe("Framework");
+    expect(k.label()).toBe("Control 5.1.1 in Framework iso27001");
+  });
+
+  it("keeps the registry in derived KRNs", () => {
+    const k = KRN.parse(CONTROL, { kinds: kinds() });
+    expect(k.parent()?.kind()?.kind).toBe("Framework");
+    expect(k.child("objectives", "a").label()).toBe(
+      "Control Objective a in Control 5.1.1",
+    );
+  });
+
+  it("uses a given registry", () => {
+    const k = KRN.parse(CONTROL);
+    expect(k.kind()).toBeNull();
+    expect(k.parentKind()).toBeNull();
+    expect(k.label()).toBe(CONTROL);
+    expect(k.kind(kinds())?.kind).toBe("Control");
+    expect(k.label(kinds())).toBe("Control 5.1.1 in Framework iso27001");
+  });
+
+  it("returns null for unregistered collections", () => {
+    const k = KRN.parse("//kopexa.com/tenants/acme", { kinds: kinds() });
+    expect(k.kind()).toBeNull();
+    expect(k.parentKind()).toBeNull();
+  });
+
+  it("works with builders and parsers", () => {
+    const registry = kinds();
+    const built = new KRNBuilder({ kinds: registry })
+      .resource("frameworks", "iso27001")
+      .build();
+    expect(built.kind()?.kind).toBe("Framework");
+    const parser = createKRNParser({ kinds: registry });
+    expect(parser.parse(CONTROL).label()).toBe(
+      "Control 5.1.1 in Framework iso27001",
+    );
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Resource kinds - typed names of the resources in each collection, for
+ * display in UIs and audit logs.
+ *
+ * Example:
+ *   const kinds = new KRNKindRegistry()
+ *     .register({ kind: "Framework", collection: "frameworks", singular: "framework" })
+ *     .register({
+ *       kind: "Control",
+ *       collection: "controls",
+ *       singular: "control",
+ *       parent: "Framework",
+ *     });
+ *
+ *   const k = KRN.parse("//kopexa.com/frameworks/iso27001/controls/5.1.1", { kinds });
+ *   k.kind()?.kind;       // "Control"
+ *   k.parentKind()?.kind; // "Framework"
+ *   k.label();            // "Control 5.1.1 in Framework iso27001"
+ */
+
+import {
+  isValidCollection,
+  type KRN,
+  type KRNCollectionRules,
+  KRNError,
+  KRNErrorCode,
+  type Segment,
+} from "./krn.js";
+
+/** A resource kind and the collection of its resources */
+export interface ResourceKind {
+  /** Kind name, e.g. "Control" */
+  kind: string;
+  /** Collection of the resources, e.g. "controls" */
+  collection: string;
+  /** Singular of the collection, e.g. "control". Defaults to the collection. */
+  singular?: string;
+  /** Display name, e.g. "Security Control". Defaults to the kind name. */
+  title?: string;
+  /** Kind of the parent resource, e.g. "Framework", if any */
+  parent?: string;
+}
+
+/** Options for a KRNKindRegistry */
+export interface KRNKindRegistryOptions {
+  /** Naming rules of the registered collections, like for KRN.parse */
+  collectionRules?: KRNCollectionRules;
+}
+
+/**
+ * KRNKindRegistry maps collections to resource kinds. Each collection
+ * belongs to one kind.
+ */
+export class KRNKindRegistry {
+  private readonly _kinds = new Map<string, ResourceKind>();
+  private readonly _collections = new Map<string, ResourceKind>();
+  private readonly _collectionRules: KRNCollectionRules;
+
+  constructor(options: KRNKindRegistryOptions = {}) {
+    this._collectionRules = options.collectionRules ?? {};
+  }
+
+  /**
+   * Register a resource kind, replacing any previous registration of the
+   * kind.
+   * @throws {KRNError} if the kind is empty, or the collection is invalid
+   * or belongs to another kind
+   */
+  register(kind: ResourceKind): this {
+    if (!kind.kind) {
+      throw new KRNError(KRNErrorCode.INVALID_KRN, "kind cannot be empty");
+    }
+    if (!isValidCollection(kind.collection, this._collectionRules)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_COLLECTION,
+        `invalid collection name: ${kind.collection}`,
+      );
+    }
+    const owner = this._collections.get(kind.collection);
+    if (owner && owner.kind !== kind.kind) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_COLLECTION,
+        `collection ${kind.collection} already belongs to kind ${owner.kind}`,
+      );
+    }
+
+    const previous = this._kinds.get(kind.kind);
+    if (previous) {
+      this._collections.delete(previous.collection);
+    }
+    // Copy the kind, so later changes to the given one have no effect
+    const copy = Object.freeze({
+      ...kind,
+      singular: kind.singular ?? kind.collection,
+    });
+    this._kinds.set(kind.kind, copy);
+    this._collections.set(kind.collection, copy);
+    return this;
+  }
+
+  /** Check if a kind is registered. */
+  has(kind: string): boolean {
+    return this._kinds.has(kind);
+  }
+
+  /** Get a registered kind by name, or undefined if unknown. */
+  get(kind: string): ResourceKind | undefined {
+    return this._kinds.get(kind);
+  }
+
+  /** Get the kind of a collection, or undefined if unknown. */
+  forCollection(collection: string): ResourceKind | undefined {
+    return this._collections.get(collection);
+  }
+
+  /** Get the registered kinds. */
+  kinds(): ResourceKind[] {
+    return [...this._kinds.values()];
+  }
+
+  /**
+   * Get the kind of a KRN, i.e. of its basenameCollection(), or undefined
+   * if the collection is not registered.
+   */
+  kindOf(k: KRN): ResourceKind | undefined {
+    return this.forCollection(k.basenameCollection());
+  }
+
+  /**
+   * Get the declared parent kind of the kind of a KRN, or undefined if the
+   * kind has no registered parent.
+   */
+  parentKindOf(k: KRN): ResourceKind | undefined {
+    const parent = this.kindOf(k)?.parent;
+    return parent === undefined ? undefined : this.get(parent);
+  }
+
+  /**
+   * Get the kinds of the segments() of a KRN, undefined for collections
+   * that are not registered.
+   */
+  kindsOf(k: KRN): (ResourceKind | undefined)[] {
+    return k.segments().map((seg) => this.forCollection(seg.collection));
+  }
+
+  /**
+   * Get a display label of a KRN from its resource and the parent
+   * resource, like "Control 5.1.1 in Framework iso27001". Collections
+   * that are not registered are shown by name.
+   */
+  labelOf(k: KRN): string {
+    const segments = k.segments();
+    const leaf = segments[segments.length - 1];
+    const parent = segments[segments.length - 2];
+    if (!leaf) {
+      return "";
+    }
+    const label = this.segmentLabel(leaf);
+    return parent ? `${label} in ${this.segmentLabel(parent)}` : label;
+  }
+
+  /** Get the label of a segment, like "Control 5.1.1". */
+  private segmentLabel(seg: Segment): string {
+    const kind = this.forCollection(seg.collection);
+    return `${kind?.title ?? kind?.kind ?? seg.collection} ${seg.resourceId}`;
+  }
+}
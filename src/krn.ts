@@ -0,0 +1,2007 @@
+/**
+ * Kopexa Resource Names (KRN) - TypeScript implementation
+ *
+ * KRN Format:
+ *   //kopexa.com/{collection}/{resource-id}[/{collection}/{resource-id}][@{version}]
+ *   //{service}.kopexa.com/{collection}/{resource-id}[/{collection}/{resource-id}][@{version}]
+ *
+ * Examples:
+ *   //kopexa.com/frameworks/iso27001
+ *   //kopexa.com/frameworks/iso27001/controls/5.1.1
+ *   //catalog.kopexa.com/frameworks/iso27001
+ *   //isms.kopexa.com/tenants/acme-corp/workspaces/main
+ *   //kopexa.com/frameworks/iso27001/controls/5.1.1@v2
+ */
+
+import type { KRNKindRegistry, ResourceKind } from "./kind.js";
+import type { KRNServiceRegistry } from "./service.js";
+
+/** Default base domain of KRNs, see KRNParseOptions.domain */
+export const DOMAIN = "kopexa.com";
+
+/**
+ * Error codes for KRN operations - compatible with Go krn package.
+ * Codes after RESOURCE_NOT_FOUND are TypeScript-only extensions.
+ */
+export const KRNErrorCode = {
+  EMPTY_KRN: "EMPTY_KRN",
+  INVALID_KRN: "INVALID_KRN",
+  INVALID_DOMAIN: "INVALID_DOMAIN",
+  INVALID_RESOURCE_ID: "INVALID_RESOURCE_ID",
+  INVALID_VERSION: "INVALID_VERSION",
+  RESOURCE_NOT_FOUND: "RESOURCE_NOT_FOUND",
+  INVALID_HIERARCHY: "INVALID_HIERARCHY",
+  UNKNOWN_SERVICE: "UNKNOWN_SERVICE",
+  INVALID_COLLECTION: "INVALID_COLLECTION",
+} as const;
+
+export type KRNErrorCode = (typeof KRNErrorCode)[keyof typeof KRNErrorCode];
+
+/** Custom error class for KRN operations */
+export class KRNError extends Error {
+  constructor(
+    public readonly code: KRNErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "KRNError";
+  }
+}
+
+/** A collection/resource-id pair in a KRN path */
+export interface Segment<C extends string = string> {
+  collection: C;
+  resourceId: string;
+}
+
+declare const krnStringBrand: unique symbol;
+
+/** A string that is known to be a valid KRN */
+export type KRNString = string & { readonly [krnStringBrand]: true };
+
+/**
+ * Options for parsing and building KRNs. The defaults accept any service
+ * under kopexa.com.
+ */
+export interface KRNParseOptions {
+  /** Base domain, e.g. "kopexa.test". Defaults to DOMAIN. */
+  domain?: string;
+  /**
+   * Services that are allowed, "" for KRNs without service. Other services
+   * are rejected with UNKNOWN_SERVICE.
+   */
+  allowedServices?: readonly string[];
+  /**
+   * Registry of known services. KRNs of unregistered services are rejected
+   * with UNKNOWN_SERVICE, and KRNs must follow the schema of their service.
+   * The KRN remembers the registry for withService, child and slice.
+   */
+  services?: KRNServiceRegistry;
+  /**
+   * Naming rules of collections, see isValidCollection. The KRN remembers
+   * the rules for child.
+   */
+  collectionRules?: KRNCollectionRules;
+  /**
+   * Registry of resource kinds. The KRN remembers the registry for kind,
+   * parentKind and label.
+   */
+  kinds?: KRNKindRegistry;
+}
+
+/**
+ * Naming style of collections:
+ * - "loose": letters, digits, _, . and -, not starting with . or -, like
+ *   controls, controls_v2 or controlImplementations
+ * - "kebab": lowercase words of letters and digits joined by single hyphens,
+ *   like control-implementations
+ * - "lower": lowercase letters and digits only, like controls
+ * - "camel": a lowercase letter followed by letters and digits, like
+ *   controlImplementations
+ */
+export type KRNCollectionStyle = "loose" | "kebab" | "lower" | "camel";
+
+/**
+ * Naming rules of collections. The defaults only reject whitespace and
+ * punctuation, as older KRNs use any style; kebab-case is opt-in.
+ */
+export interface KRNCollectionRules {
+  /** Naming style. Defaults to "loose". */
+  style?: KRNCollectionStyle;
+  /** Maximum length. Defaults to no limit. */
+  maxLength?: number;
+  /** Require plural names, i.e. ending with "s". Defaults to false. */
+  plural?: boolean;
+}
+
+/**
+ * Options for KRNs derived from the hierarchy of another KRN.
+ * The version belongs to the leaf resource, so by default KRNs above it
+ * (parent, ancestors, root, slice, commonAncestor) are unversioned, while
+ * withResourceId keeps the version like the other with* methods.
+ */
+export interface HierarchyOptions {
+  /** Whether the derived KRN keeps the version ("keep") or not ("drop") */
+  version?: "keep" | "drop";
+}
+
+/** Options for hierarchy comparisons */
+export interface HierarchyCompareOptions {
+  /**
+   * Whether versions are ignored (default) or must be equal ("match").
+   * With "match", an unversioned KRN only relates to unversioned ones.
+   */
+  version?: "ignore" | "match";
+}
+
+/** Structured form of a KRN, as returned by toObject() */
+export interface KRNObject<C extends string = string> {
+  /** Service name, or empty string if no service */
+  service: string;
+  segments: Segment<C>[];
+  /** Version, or empty string if unversioned */
+  version: string;
+  /** Base domain, only set for KRNs outside DOMAIN */
+  domain?: string;
+}
+
+/**
+ * Structured form accepted by KRN.fromObject, a KRNObject whose service and
+ * version may be left out.
+ */
+export interface KRNObjectInput<C extends string = string> {
+  /** Service name; no service if unset or empty */
+  service?: string;
+  segments: readonly Segment<C>[];
+  /** Version; unversioned if unset or empty */
+  version?: string;
+  /** Base domain; the domain of the parse options if unset */
+  domain?: string;
+}
+
+/**
+ * Fixes applied by KRN.normalize:
+ * - whitespace: trim surrounding whitespace
+ * - scheme: replace an http:// or https:// scheme with //
+ * - prefix: remove a krn: prefix, adding // if missing
+ * - domainCase: lowercase the domain
+ * - trailingSlash: remove trailing slashes of the resource path
+ */
+export type KRNNormalizeFix =
+  | "whitespace"
+  | "scheme"
+  | "prefix"
+  | "domainCase"
+  | "trailingSlash";
+
+/** Options for KRN.normalize - every fix is enabled unless set to false */
+export type KRNNormalizeOptions = Partial<Record<KRNNormalizeFix, boolean>>;
+
+/** Result of KRN.normalize */
+export interface KRNNormalizeResult {
+  krn: KRN;
+  /** Fixes that changed the input, in the order they were applied */
+  fixes: KRNNormalizeFix[];
+}
+
+/** Strip the version suffix from the path part of a KRN string type */
+type StripVersion<P extends string> = P extends `${infer Path}@${string}`
+  ? Path
+  : P;
+
+/** Collect the collections of a collection/id path type */
+type PathCollections<P extends string> =
+  P extends `${infer C}/${string}/${infer Rest}`
+    ? C | PathCollections<Rest>
+    : P extends `${infer C}/${string}`
+      ? C
+      : never;
+
+/**
+ * Extract the collection names of a KRN string type.
+ * Resolves to `string` for strings that are not literals or not KRN-shaped.
+ *
+ * KRNCollections<"//kopexa.com/frameworks/iso27001/controls/5.1.1">
+ *   = "frameworks" | "controls"
+ */
+export type KRNCollections<S extends string> = string extends S
+  ? string
+  : S extends `//${string}/${infer Path}`
+    ? [PathCollections<StripVersion<Path>>] extends [never]
+      ? string
+      : PathCollections<StripVersion<Path>>
+    : string;
+
+/** Validation patterns */
+const RESOURCE_ID_PATTERN =
+  /^[a-zA-Z0-9]([a-zA-Z0-9._-]{0,198}[a-zA-Z0-9])?$|^[a-zA-Z0-9]$/;
+// OSCAL-compatible version pattern:
+// - Alphanumeric, dots, dashes, underscores allowed
+// - Cannot start or end with dash or dot
+// - "v" alone is invalid (checked separately)
+// Examples: v1, v1.2.3, 2022, 2022-01-15, 1.0.0, latest, draft
+const VERSION_PATTERN = /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?$/;
+const SERVICE_PATTERN = /^[a-z][a-z0-9-]{0,61}[a-z0-9]$|^[a-z]$/;
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+const COLLECTION_PATTERNS: Record<KRNCollectionStyle, RegExp> = {
+  loose: /^[a-zA-Z0-9_][a-zA-Z0-9._-]*$/,
+  kebab: /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+  lower: /^[a-z][a-z0-9]*$/,
+  camel: /^[a-z][a-zA-Z0-9]*$/,
+};
+
+/**
+ * Check if a string is a valid resource ID.
+ * Resource IDs must be 1-200 chars, alphanumeric plus - _ .
+ * Cannot start or end with - or .
+ */
+export function isValidResourceId(id: string): boolean {
+  if (!id || id.length > 200) {
+    return false;
+  }
+  return RESOURCE_ID_PATTERN.test(id);
+}
+
+/**
+ * Check a non-empty collection name against naming rules.
+ * Returns an INVALID_COLLECTION error if the name violates the rules.
+ */
+function collectionError(
+  collection: string,
+  rules: KRNCollectionRules = {},
+): KRNError | null {
+  const pattern = COLLECTION_PATTERNS[rules.style ?? "loose"];
+  if (
+    (rules.maxLength !== undefined && collection.length > rules.maxLength) ||
+    !pattern.test(collection)
+  ) {
+    return new KRNError(
+      KRNErrorCode.INVALID_COLLECTION,
+      `invalid collection name: ${collection}`,
+    );
+  }
+  if (rules.plural && !collection.endsWith("s")) {
+    return new KRNError(
+      KRNErrorCode.INVALID_COLLECTION,
+      `collection name must be plural: ${collection}`,
+    );
+  }
+  return null;
+}
+
+/**
+ * Check a service against the allowed services of the options, "" for no
+ * service. Returns an UNKNOWN_SERVICE error if it is not allowed.
+ */
+function serviceError(
+  service: string,
+  options: KRNParseOptions,
+): KRNError | null {
+  if (options.allowedServices && !options.allowedServices.includes(service)) {
+    return new KRNError(
+      KRNErrorCode.UNKNOWN_SERVICE,
+      service ? `service not allowed: ${service}` : "service required",
+    );
+  }
+  return null;
+}
+
+/**
+ * Check if a string is a valid collection name.
+ * By default collections may contain letters, digits, _, . and -, and
+ * cannot start with . or -; see KRNCollectionRules for stricter rules.
+ */
+export function isValidCollection(
+  collection: string,
+  rules: KRNCollectionRules = {},
+): boolean {
+  return !!collection && collectionError(collection, rules) === null;
+}
+
+/**
+ * Check if a string is a valid version (OSCAL-compatible).
+ * Versions must be alphanumeric with dots, dashes, underscores.
+ * Cannot start or end with dash or dot. "v" alone is invalid.
+ * Valid formats: v1, v1.2.3, 2022, 2022-01-15, 1.0.0, latest, draft
+ */
+export function isValidVersion(version: string): boolean {
+  if (!version || version === "v") {
+    return false;
+  }
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * Check if a string is a valid service name.
+ * Service names must be lowercase, start with a letter,
+ * and contain only alphanumeric characters and hyphens.
+ */
+export function isValidService(service: string): boolean {
+  if (!service) {
+    return false;
+  }
+  return SERVICE_PATTERN.test(service);
+}
+
+/**
+ * Check if a string is a valid base domain: lowercase DNS labels of
+ * letters, digits and hyphens separated by dots, like kopexa.com.
+ */
+export function isValidDomain(domain: string): boolean {
+  if (!domain || domain.length > 253) {
+    return false;
+  }
+  return domain.split(".").every((label) => DOMAIN_LABEL_PATTERN.test(label));
+}
+
+/**
+ * Get the base domain of parse options, DOMAIN if unset.
+ * @throws {KRNError} if the domain is invalid
+ */
+export function baseDomain(options: KRNParseOptions = {}): string {
+  const domain = options.domain ?? DOMAIN;
+  if (domain !== DOMAIN && !isValidDomain(domain)) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_DOMAIN,
+      `invalid base domain: ${domain}`,
+    );
+  }
+  return domain;
+}
+
+/**
+ * Split a domain into its service below a base domain, "" for the base
+ * domain itself:
+ *   splitDomain("catalog.kopexa.com", "kopexa.com") // { service: "catalog" }
+ * Patterns pass their wildcard to accept it as service, like *.kopexa.com.
+ * Returns an INVALID_DOMAIN error for other domains and invalid services.
+ */
+export function splitDomain(
+  domain: string,
+  base: string,
+  wildcard?: string,
+): { service: string } | KRNError {
+  if (domain === base) {
+    return { service: "" };
+  }
+  if (domain.endsWith(`.${base}`)) {
+    const service = domain.slice(0, -(base.length + 1));
+    if (service !== wildcard && !isValidService(service)) {
+      return new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `invalid service name: ${service}`,
+      );
+    }
+    return { service };
+  }
+  const expected = wildcard
+    ? `${base}, {service}.${base} or ${wildcard}.${base}`
+    : `${base} or {service}.${base}`;
+  return new KRNError(
+    KRNErrorCode.INVALID_DOMAIN,
+    `expected ${expected}, got ${domain}`,
+  );
+}
+
+/**
+ * Convert a string to a valid resource ID by replacing invalid characters.
+ */
+export function safeResourceId(s: string): string {
+  if (!s) {
+    return "";
+  }
+
+  // Replace invalid characters with -
+  let result = "";
+  for (const char of s) {
+    if (/[a-zA-Z0-9._-]/.test(char)) {
+      result += char;
+    } else {
+      result += "-";
+    }
+  }
+
+  // Trim leading/trailing - and . (using indices to avoid ReDoS)
+  let start = 0;
+  let end = result.length;
+  while (start < end && (result[start] === "-" || result[start] === ".")) {
+    start++;
+  }
+  while (end > start && (result[end - 1] === "-" || result[end - 1] === ".")) {
+    end--;
+  }
+  result = result.slice(start, end);
+
+  // Truncate to 200 characters
+  if (result.length > 200) {
+    result = result.slice(0, 200);
+    // Make sure we don't end with - or .
+    let trimEnd = result.length;
+    while (
+      trimEnd > 0 &&
+      (result[trimEnd - 1] === "-" || result[trimEnd - 1] === ".")
+    ) {
+      trimEnd--;
+    }
+    result = result.slice(0, trimEnd);
+  }
+
+  return result;
+}
+
+/** Namespace identifier (NID) of KRNs in RFC 8141 URN form */
+export const URN_NAMESPACE = "kopexa";
+
+/** Escape character of encoded resource IDs */
+const ESCAPE_CHAR = "_";
+
+/**
+ * Prefix for encoded IDs that would otherwise start with an escape, since
+ * resource IDs must start with an alphanumeric character. IDs starting with
+ * x...x_ get one more x, so a single leading x is always dropped on decode.
+ */
+const ESCAPE_PREFIX = "x";
+const ESCAPE_PREFIX_PATTERN = /^x*_/;
+
+/** Characters kept as is by encodeResourceId (except - and . at the ends) */
+const UNESCAPED_PATTERN = /^[a-zA-Z0-9.-]$/;
+
+/** Escape sequences, unescaped characters or anything else */
+const ENCODED_TOKEN_PATTERN = /_([0-9A-F]{2})|[a-zA-Z0-9.-]|./g;
+
+/** Escape an ASCII character as _XX */
+function escapeChar(char: string): string {
+  return `${ESCAPE_CHAR}${char.charCodeAt(0).toString(16).toUpperCase()}`;
+}
+
+/**
+ * Encode an arbitrary string as a resource ID, reversibly.
+ * Every UTF-8 byte outside a-z, A-Z, 0-9, - and . is written as _XX
+ * (uppercase hex), as are - and . at the start or end. IDs that would
+ * start with an escape are prefixed with x.
+ * Strings that are already valid IDs without _ are returned unchanged.
+ *
+ * Examples:
+ *   "Hello World!"     -> "Hello_20World_21"
+ *   "Größe/Maße"       -> "Gr_C3_B6_C3_9Fe_2FMa_C3_9Fe"
+ *   "iso_27001"        -> "iso_5F27001"
+ *   "-draft"           -> "x_2Ddraft"
+ *
+ * @throws {KRNError} if the string is empty, contains lone surrogates
+ *   or the encoded ID exceeds 200 characters
+ */
+export function encodeResourceId(s: string): string {
+  if (!s) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_RESOURCE_ID,
+      "cannot encode empty resource ID",
+    );
+  }
+
+  let uri: string;
+  try {
+    uri = encodeURIComponent(s);
+  } catch {
+    throw new KRNError(
+      KRNErrorCode.INVALID_RESOURCE_ID,
+      "cannot encode malformed Unicode string",
+    );
+  }
+
+  // encodeURIComponent already escapes UTF-8 bytes as %XX; escape the
+  // remaining URI-safe characters that are not valid in resource IDs
+  let result = "";
+  for (const char of uri) {
+    if (char === "%") {
+      result += ESCAPE_CHAR;
+    } else if (UNESCAPED_PATTERN.test(char)) {
+      result += char;
+    } else {
+      result += escapeChar(char);
+    }
+  }
+
+  const first = result[0] ?? "";
+  if (first === "-" || first === ".") {
+    result = escapeChar(first) + result.slice(1);
+  }
+  const last = result[result.length - 1] ?? "";
+  if (last === "-" || last === ".") {
+    result = result.slice(0, -1) + escapeChar(last);
+  }
+  if (ESCAPE_PREFIX_PATTERN.test(result)) {
+    result = ESCAPE_PREFIX + result;
+  }
+
+  if (result.length > 200) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_RESOURCE_ID,
+      `encoded resource ID exceeds 200 characters: ${result.length}`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Decode a resource ID written by encodeResourceId.
+ * IDs without _ are returned unchanged. Other IDs are always interpreted
+ * as encoded, so only decode IDs that were written by encodeResourceId.
+ * @throws {KRNError} if the ID is invalid or not a valid encoding
+ */
+export function decodeResourceId(id: string): string {
+  if (!isValidResourceId(id)) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_RESOURCE_ID,
+      `invalid resource ID: ${id}`,
+    );
+  }
+
+  const body = ESCAPE_PREFIX_PATTERN.test(id) ? id.slice(1) : id;
+  let uri = "";
+  for (const m of body.matchAll(ENCODED_TOKEN_PATTERN)) {
+    if (m[1]) {
+      uri += `%${m[1]}`;
+    } else if (m[0] === ESCAPE_CHAR) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_RESOURCE_ID,
+        `invalid escape sequence in resource ID: ${id}`,
+      );
+    } else {
+      uri += m[0];
+    }
+  }
+
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    throw new KRNError(
+      KRNErrorCode.INVALID_RESOURCE_ID,
+      `resource ID is not valid UTF-8: ${id}`,
+    );
+  }
+}
+
+/**
+ * Kind of a version:
+ *   semver   v1, v1.2, 1.2.3, v2.0.0-rc.1 (the v prefix is optional)
+ *   date     2022, 2022-01, 2022-01-15
+ *   keyword  draft, latest
+ *   other    any other valid version, e.g. r5 or final
+ */
+export type VersionKind = "semver" | "date" | "keyword" | "other";
+
+/** A version classified by its format */
+export interface VersionInfo {
+  /** The version string */
+  raw: string;
+  kind: VersionKind;
+  /** Major/minor/patch of a semver or year/month/day of a date, as given */
+  numbers: number[];
+  /** Pre-release identifiers of a semver, e.g. ["rc", "1"] for v2.0.0-rc.1 */
+  prerelease: string[];
+}
+
+// Calendar dates, checked before semver so that 2022 is a year
+const DATE_VERSION_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const SEMVER_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+/**
+ * Rank of each kind in the version order. Versions of different kinds are
+ * not comparable in a meaningful way, so the kinds have a fixed order:
+ * draft < other < date < semver < latest.
+ */
+function versionRank(v: VersionInfo): number {
+  switch (v.kind) {
+    case "keyword":
+      return v.raw === "draft" ? 0 : 4;
+    case "other":
+      return 1;
+    case "date":
+      return 2;
+    default:
+      return 3;
+  }
+}
+
+/**
+ * Classify a version.
+ * @throws {KRNError} if the version is invalid
+ */
+export function parseVersion(version: string): VersionInfo {
+  if (!isValidVersion(version)) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_VERSION,
+      `invalid version format: ${version}`,
+    );
+  }
+
+  if (version === "draft" || version === "latest") {
+    return { raw: version, kind: "keyword", numbers: [], prerelease: [] };
+  }
+
+  const date = DATE_VERSION_PATTERN.exec(version);
+  if (date) {
+    const numbers = date
+      .slice(1)
+      .filter((n) => n !== undefined)
+      .map(Number);
+    const [, month = 1, day = 1] = numbers;
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return { raw: version, kind: "other", numbers: [], prerelease: [] };
+    }
+    return { raw: version, kind: "date", numbers, prerelease: [] };
+  }
+
+  const semver = SEMVER_PATTERN.exec(version);
+  if (semver) {
+    return {
+      raw: version,
+      kind: "semver",
+      numbers: semver
+        .slice(1, 4)
+        .filter((n) => n !== undefined)
+        .map(Number),
+      prerelease: semver[4]?.split(".") ?? [],
+    };
+  }
+
+  return { raw: version, kind: "other", numbers: [], prerelease: [] };
+}
+
+/** Compare two numbers or strings, returning -1, 0 or 1. */
+function compareValues<T extends number | string>(a: T, b: T): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+/** Compare numeric components, treating missing ones as given. */
+function compareNumbers(a: number[], b: number[], pad: boolean): number {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined || y === undefined) {
+      if (pad) {
+        const cmp = compareValues(x ?? 0, y ?? 0);
+        if (cmp !== 0) {
+          return cmp;
+        }
+        continue;
+      }
+      // A less precise date sorts before a more precise one
+      return x === undefined ? -1 : 1;
+    }
+    const cmp = compareValues(x, y);
+    if (cmp !== 0) {
+      return cmp;
+    }
+  }
+  return 0;
+}
+
+/** Compare semver pre-release identifiers per the semver spec. */
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts after its pre-releases
+  if (a.length === 0 || b.length === 0) {
+    return compareValues(b.length, a.length);
+  }
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined || y === undefined) {
+      return x === undefined ? -1 : 1;
+    }
+    const xNumeric = /^\d+$/.test(x);
+    const yNumeric = /^\d+$/.test(y);
+    let cmp: number;
+    if (xNumeric && yNumeric) {
+      cmp = compareValues(Number(x), Number(y));
+    } else if (xNumeric || yNumeric) {
+      // Numeric identifiers sort before alphanumeric ones
+      cmp = xNumeric ? -1 : 1;
+    } else {
+      cmp = compareValues(x, y);
+    }
+    if (cmp !== 0) {
+      return cmp;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare two versions, returning -1, 0 or 1 for use with Array.sort.
+ *
+ * The order is total:
+ *   1. draft sorts first, as it is not released
+ *   2. other versions, by code point
+ *   3. dates, chronologically (2022 < 2022-01 < 2022-01-15)
+ *   4. semvers, by major/minor/patch (v1 equals v1.0.0 here), with
+ *      pre-releases before their release as in semver
+ *   5. latest sorts last, as it stands for the newest version
+ * Versions that are equal by these rules (v1, 1.0, v1.0.0) are ordered by
+ * code point, so 0 is only returned for identical versions.
+ * @throws {KRNError} if either version is invalid
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+
+  let cmp = compareValues(versionRank(va), versionRank(vb));
+  if (cmp === 0 && va.kind === "date") {
+    cmp = compareNumbers(va.numbers, vb.numbers, false);
+  }
+  if (cmp === 0 && va.kind === "semver") {
+    cmp =
+      compareNumbers(va.numbers, vb.numbers, true) ||
+      comparePrerelease(va.prerelease, vb.prerelease);
+  }
+  return cmp || compareValues(a, b);
+}
+
+/**
+ * Apply the enabled fixes to a KRN string, recording those that changed it.
+ * Resource IDs and versions are never changed, as they are case-sensitive.
+ */
+function normalizeKRNString(
+  input: string,
+  options: KRNNormalizeOptions,
+): { value: string; fixes: KRNNormalizeFix[] } {
+  const fixes: KRNNormalizeFix[] = [];
+  let value = input;
+
+  if (options.whitespace !== false) {
+    const trimmed = value.trim();
+    if (trimmed !== value) {
+      value = trimmed;
+      fixes.push("whitespace");
+    }
+  }
+
+  if (options.scheme !== false) {
+    const lower = value.slice(0, 8).toLowerCase();
+    const scheme = lower.startsWith("https://")
+      ? 6
+      : lower.startsWith("http://")
+        ? 5
+        : 0;
+    if (scheme) {
+      value = value.slice(scheme);
+      fixes.push("scheme");
+    }
+  }
+
+  if (options.prefix !== false && value.slice(0, 4).toLowerCase() === "krn:") {
+    value = value.slice(4);
+    if (!value.startsWith("//")) {
+      value = `//${value}`;
+    }
+    fixes.push("prefix");
+  }
+
+  if (options.domainCase !== false && value.startsWith("//")) {
+    // The domain ends at the first / or @
+    let end = 2;
+    while (end < value.length && value[end] !== "/" && value[end] !== "@") {
+      end++;
+    }
+    const domain = value.slice(2, end);
+    if (domain !== domain.toLowerCase()) {
+      value = `//${domain.toLowerCase()}${value.slice(end)}`;
+      fixes.push("domainCase");
+    }
+  }
+
+  if (options.trailingSlash !== false) {
+    const atIndex = value.lastIndexOf("@");
+    const pathEnd = atIndex === -1 ? value.length : atIndex;
+    // Keep the // prefix, using indices to avoid ReDoS
+    let end = pathEnd;
+    while (end > 2 && value[end - 1] === "/") {
+      end--;
+    }
+    if (end !== pathEnd) {
+      value = value.slice(0, end) + value.slice(pathEnd);
+      fixes.push("trailingSlash");
+    }
+  }
+
+  return { value, fixes };
+}
+
+/**
+ * KRN represents a Kopexa Resource Name.
+ *
+ * The type parameter holds the collections of the KRN when they are known at
+ * compile time, e.g. for KRNs parsed from string literals.
+ */
+export class KRN<C extends string = string> {
+  private readonly _service: string;
+  private readonly _segments: Segment<C>[];
+  private readonly _version: string;
+  private readonly _domain: string;
+  /** Options the KRN was parsed with, for derived KRNs */
+  private readonly _options: KRNParseOptions;
+
+  private constructor(
+    service: string,
+    segments: Segment<C>[],
+    version: string,
+    domain: string,
+    options: KRNParseOptions,
+  ) {
+    this._service = service;
+    this._segments = segments;
+    this._version = version;
+    this._domain = domain;
+    this._options = options;
+  }
+
+  /**
+   * Parse a KRN string and return a KRN instance.
+   * For string literals the collections are tracked in the returned type.
+   * Options set another base domain or restrict the services; the KRN
+   * remembers its domain.
+   * @throws {KRNError} if the string is not a valid KRN
+   */
+  static parse<S extends string>(
+    input: S,
+    options: KRNParseOptions = {},
+  ): KRN<KRNCollections<S>> {
+    if (!input) {
+      throw new KRNError(KRNErrorCode.EMPTY_KRN, "empty KRN string");
+    }
+
+    // Must start with //
+    if (!input.startsWith("//")) {
+      throw new KRNError(KRNErrorCode.INVALID_KRN, "must start with //");
+    }
+
+    // Remove // prefix
+    let str = input.slice(2);
+
+    // Extract version if present
+    let version = "";
+    const atIndex = str.lastIndexOf("@");
+    if (atIndex !== -1) {
+      version = str.slice(atIndex + 1);
+      str = str.slice(0, atIndex);
+      if (!isValidVersion(version)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_VERSION,
+          `invalid version format: ${version}`,
+        );
+      }
+    }
+
+    // Split by /
+    const parts = str.split("/");
+    if (parts.length < 3) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least domain/collection/id",
+      );
+    }
+
+    // Parse domain - can be "kopexa.com" or "{service}.kopexa.com"
+    const base = baseDomain(options);
+    const split = splitDomain(parts[0] ?? "", base);
+    if (split instanceof KRNError) {
+      throw split;
+    }
+    const { service } = split;
+    const serviceErr = serviceError(service, options);
+    if (serviceErr) {
+      throw serviceErr;
+    }
+
+    // Parse resource path (must be pairs of collection/id)
+    const resourcePath = parts.slice(1);
+    if (resourcePath.length % 2 !== 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "resource path must be pairs of collection/id",
+      );
+    }
+
+    const segments: Segment<KRNCollections<S>>[] = [];
+    for (let i = 0; i < resourcePath.length; i += 2) {
+      const collection = (resourcePath[i] ?? "") as KRNCollections<S>;
+      const resourceId = resourcePath[i + 1] ?? "";
+
+      if (!collection) {
+        throw new KRNError(KRNErrorCode.INVALID_KRN, "empty collection name");
+      }
+      if (!isValidResourceId(resourceId)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_RESOURCE_ID,
+          `invalid resource ID: ${resourceId}`,
+        );
+      }
+
+      segments.push({ collection, resourceId });
+    }
+
+    // Collection names are checked last, keeping the error codes of KRNs
+    // that are also invalid otherwise compatible with the Go package
+    for (const { collection } of segments) {
+      const collectionErr = collectionError(
+        collection,
+        options.collectionRules,
+      );
+      if (collectionErr) {
+        throw collectionErr;
+      }
+    }
+
+    const k = new KRN(service, segments, version, base, options);
+    options.services?.validate(k);
+    return k;
+  }
+
+  /**
+   * Parse a KRN string, returning null if invalid instead of throwing.
+   */
+  static tryParse<S extends string>(
+    s: S,
+    options: KRNParseOptions = {},
+  ): KRN<KRNCollections<S>> | null {
+    try {
+      return KRN.parse(s, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if a string is a valid KRN.
+   */
+  static isValid(s: string, options: KRNParseOptions = {}): s is KRNString {
+    return KRN.tryParse(s, options) !== null;
+  }
+
+  /**
+   * Parse user-supplied KRN input, repairing known-safe deviations such as
+   * surrounding whitespace, https:// or krn: prefixes, uppercase domains
+   * and trailing slashes. Returns the KRN and the fixes that were applied.
+   * Fixes can be disabled individually; KRN.parse stays strict.
+   *
+   * Example:
+   *   KRN.normalize(" https://Catalog.Kopexa.com/frameworks/iso27001/ ")
+   *   // { krn: //catalog.kopexa.com/frameworks/iso27001,
+   *   //   fixes: ["whitespace", "scheme", "domainCase", "trailingSlash"] }
+   * @throws {KRNError} if the input is not a valid KRN after the fixes
+   */
+  static normalize(
+    input: string,
+    options: KRNNormalizeOptions & KRNParseOptions = {},
+  ): KRNNormalizeResult {
+    const { value, fixes } = normalizeKRNString(input, options);
+    return { krn: KRN.parse(value, options), fixes };
+  }
+
+  /**
+   * Normalize user-supplied KRN input, returning null if invalid instead
+   * of throwing.
+   */
+  static tryNormalize(
+    input: string,
+    options: KRNNormalizeOptions & KRNParseOptions = {},
+  ): KRNNormalizeResult | null {
+    try {
+      return KRN.normalize(input, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse an RFC 8141 URN produced by toURN() and return a KRN instance.
+   *
+   * URN Format:
+   *   urn:kopexa:{service}:{collection}:{resource-id}[:{collection}:{resource-id}][@{version}]
+   *
+   * The service is empty for KRNs without service. Components are
+   * percent-decoded and validated like KRN.parse. URNs do not contain the
+   * base domain, it is taken from the options.
+   * @throws {KRNError} if the string is not a valid KRN URN
+   */
+  static fromURN(input: string, options: KRNParseOptions = {}): KRN {
+    if (!input) {
+      throw new KRNError(KRNErrorCode.EMPTY_KRN, "empty URN string");
+    }
+
+    const parts = input.split(":");
+    if (parts.length < 2 || parts[0]?.toLowerCase() !== "urn") {
+      throw new KRNError(KRNErrorCode.INVALID_KRN, "must start with urn:");
+    }
+    // NID is case-insensitive per RFC 8141
+    if (parts[1]?.toLowerCase() !== URN_NAMESPACE) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `expected urn:${URN_NAMESPACE}, got urn:${parts[1]}`,
+      );
+    }
+    if (/[?#]/.test(input)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "URN r-, q- and f-components are not supported",
+      );
+    }
+
+    // The version follows the last resource ID after a literal @, which
+    // toURN() percent-encodes within components
+    const rest = parts.slice(2);
+    let rawVersion: string | undefined;
+    const last = rest[rest.length - 1] ?? "";
+    const at = last.indexOf("@");
+    if (rest.length > 1 && at !== -1) {
+      rest[rest.length - 1] = last.slice(0, at);
+      rawVersion = last.slice(at + 1);
+    }
+
+    const decode = (part: string): string => {
+      let value: string;
+      try {
+        value = decodeURIComponent(part);
+      } catch {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `invalid percent-encoding in URN: ${part}`,
+        );
+      }
+      if (value.includes("/") || value.includes("@")) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `invalid character in URN component: ${value}`,
+        );
+      }
+      return value;
+    };
+
+    const [service = "", ...tokens] = rest.map(decode);
+    if (tokens.length < 2) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least service:collection:id",
+      );
+    }
+    if (tokens.length % 2 === 1) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have collection:id pairs",
+      );
+    }
+    const version = rawVersion === undefined ? undefined : decode(rawVersion);
+
+    // Use parse to create the KRN to ensure consistency
+    let krn = `//${service ? `${service}.` : ""}${baseDomain(options)}/${tokens.join("/")}`;
+    if (version !== undefined) {
+      krn += `@${version}`;
+    }
+    return KRN.parse(krn, options);
+  }
+
+  /**
+   * Parse a KRN URN, returning null if invalid instead of throwing.
+   */
+  static tryFromURN(s: string, options: KRNParseOptions = {}): KRN | null {
+    try {
+      return KRN.fromURN(s, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a KRN from its structured form, as returned by toObject().
+   * Service and version may be omitted. The object is validated at runtime,
+   * so it may come straight from a JSON payload. The base domain of the
+   * options is used if the object has none; otherwise they must be equal, so
+   * objects of other domains are rejected rather than moved into it.
+   * @throws {KRNError} if the object is not a valid KRN object
+   */
+  static fromObject<C extends string = string>(
+    obj: KRNObjectInput<C>,
+    options: KRNParseOptions = {},
+  ): KRN<C> {
+    if (
+      typeof obj !== "object" ||
+      obj === null ||
+      !Array.isArray(obj.segments)
+    ) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "expected KRN object with segments",
+      );
+    }
+    const { service = "", segments, version = "" } = obj;
+    if (typeof service !== "string" || typeof version !== "string") {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "service and version must be strings",
+      );
+    }
+    const base = baseDomain(options);
+    const { domain = base } = obj;
+    if (domain !== base) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `expected domain ${base}, got ${typeof domain === "string" ? domain : typeof domain}`,
+      );
+    }
+    if (segments.length === 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least one resource",
+      );
+    }
+
+    const tokens: string[] = [];
+    for (const seg of segments) {
+      if (
+        typeof seg !== "object" ||
+        seg === null ||
+        typeof seg.collection !== "string" ||
+        typeof seg.resourceId !== "string"
+      ) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          "segments must have collection and resourceId strings",
+        );
+      }
+      if (!seg.collection) {
+        throw new KRNError(KRNErrorCode.INVALID_KRN, "empty collection name");
+      }
+      if (!isValidResourceId(seg.resourceId)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_RESOURCE_ID,
+          `invalid resource ID: ${seg.resourceId}`,
+        );
+      }
+      // Collections with / or @ would change the parsed KRN
+      const collectionErr = collectionError(
+        seg.collection,
+        options.collectionRules,
+      );
+      if (collectionErr) {
+        throw collectionErr;
+      }
+      tokens.push(seg.collection, seg.resourceId);
+    }
+
+    // Use parse to create the KRN to ensure consistency
+    let krn = `//${service ? `${service}.` : ""}${base}/${tokens.join("/")}`;
+    if (version) {
+      krn += `@${version}`;
+    }
+    return KRN.parse(krn, options) as KRN<C>;
+  }
+
+  /**
+   * Create a KRN from its structured form, returning null if invalid
+   * instead of throwing.
+   */
+  static tryFromObject<C extends string = string>(
+    obj: KRNObjectInput<C>,
+    options: KRNParseOptions = {},
+  ): KRN<C> | null {
+    try {
+      return KRN.fromObject(obj, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a reference against a base KRN, similar to URL resolution.
+   *
+   * Supported references:
+   *   ""                    the base itself
+   *   controls/5.1.1        path below the base
+   *   ../controls/5.1.2     path below an ancestor of the base (".." drops one segment)
+   *   /frameworks/nist      absolute path in the service of the base
+   *   @v2                   the base path with another version
+   *   //kopexa.com/...      a complete KRN, returned as is
+   *
+   * Path references may end with a version (`../controls/5.1.2@v2`) and
+   * otherwise resolve to an unversioned KRN. References are parsed in the
+   * domain and service registry of the base.
+   * @throws {KRNError} if the base or reference is invalid
+   */
+  static resolve(base: KRN | string, reference: string): KRN {
+    const b = typeof base === "string" ? KRN.parse(base) : base;
+    const options = { ...b._options, domain: b._domain };
+
+    if (reference.startsWith("//")) {
+      return KRN.parse(reference, options);
+    }
+
+    let ref = reference;
+    let version = "";
+    const atIndex = ref.lastIndexOf("@");
+    if (atIndex !== -1) {
+      version = ref.slice(atIndex + 1);
+      ref = ref.slice(0, atIndex);
+      if (!isValidVersion(version)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_VERSION,
+          `invalid version format: ${version}`,
+        );
+      }
+    }
+
+    const baseTokens = b._segments.flatMap((seg) => [
+      seg.collection,
+      seg.resourceId,
+    ]);
+    let tokens: string[];
+
+    if (ref === "") {
+      tokens = baseTokens;
+      if (atIndex === -1) {
+        version = b._version;
+      }
+    } else if (ref.startsWith("/")) {
+      tokens = ref.slice(1).split("/");
+    } else {
+      const parts = ref.split("/");
+      tokens = baseTokens;
+      let i = 0;
+      for (; i < parts.length; i++) {
+        if (parts[i] === "..") {
+          if (tokens.length === 0) {
+            throw new KRNError(
+              KRNErrorCode.INVALID_KRN,
+              `reference goes above the root: ${reference}`,
+            );
+          }
+          tokens = tokens.slice(0, -2);
+        } else if (parts[i] !== ".") {
+          break;
+        }
+      }
+      const rest = parts.slice(i);
+      if (rest.some((p) => p === ".." || p === ".")) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `dot segments must lead the reference: ${reference}`,
+        );
+      }
+      tokens = [...tokens, ...rest];
+    }
+
+    if (tokens.length === 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        `reference resolves to an empty path: ${reference}`,
+      );
+    }
+
+    // Use parse to create the KRN to ensure consistency
+    let krn = `//${b.fullDomain()}/${tokens.join("/")}`;
+    if (version) {
+      krn += `@${version}`;
+    }
+    return KRN.parse(krn, options);
+  }
+
+  /**
+   * Get the string representation of the KRN.
+   */
+  toString(): KRNString {
+    let result = "//";
+
+    if (this._service) {
+      result += `${this._service}.`;
+    }
+    result += this._domain;
+
+    for (const seg of this._segments) {
+      result += `/${seg.collection}/${seg.resourceId}`;
+    }
+
+    if (this._version) {
+      result += `@${this._version}`;
+    }
+
+    return result as KRNString;
+  }
+
+  /**
+   * Get the JSON representation of the KRN, the canonical string.
+   * Called by JSON.stringify.
+   */
+  toJSON(): KRNString {
+    return this.toString();
+  }
+
+  /**
+   * Get the structured form of the KRN. Inverse of KRN.fromObject() with
+   * the options of the KRN.
+   */
+  toObject(): KRNObject<C> {
+    const obj: KRNObject<C> = {
+      service: this._service,
+      segments: this._segments.map((seg) => ({ ...seg })),
+      version: this._version,
+    };
+    if (this._domain !== DOMAIN) {
+      obj.domain = this._domain;
+    }
+    return obj;
+  }
+
+  /**
+   * Get the RFC 8141 URN form of the KRN, e.g.
+   * urn:kopexa:catalog:frameworks:iso27001:controls:5.1.1@v2
+   * Components are percent-encoded; the service is empty if not set.
+   */
+  toURN(): string {
+    const components = [this._service];
+    for (const seg of this._segments) {
+      components.push(seg.collection, seg.resourceId);
+    }
+    const urn = `urn:${URN_NAMESPACE}:${components.map(encodeURIComponent).join(":")}`;
+    return this._version ? `${urn}@${encodeURIComponent(this._version)}` : urn;
+  }
+
+  /** Get the service name, or empty string if no service. */
+  get service(): string {
+    return this._service;
+  }
+
+  /** Check if the KRN has a service. */
+  hasService(): boolean {
+    return this._service !== "";
+  }
+
+  /** Get the base domain, e.g. kopexa.com. */
+  get domain(): string {
+    return this._domain;
+  }
+
+  /** Get the full domain including service if present. */
+  fullDomain(): string {
+    if (this._service) {
+      return `${this._service}.${this._domain}`;
+    }
+    return this._domain;
+  }
+
+  /** Get the resource path without domain. */
+  path(): string {
+    return this._segments
+      .map((seg) => `${seg.collection}/${seg.resourceId}`)
+      .join("/");
+  }
+
+  /** Alias for path() - Mondoo-compatible naming. */
+  relativeResourceName(): string {
+    return this.path();
+  }
+
+  /** Get the version string, or empty string if no version. */
+  get version(): string {
+    return this._version;
+  }
+
+  /** Check if the KRN has a version. */
+  hasVersion(): boolean {
+    return this._version !== "";
+  }
+
+  /**
+   * Get the resource ID for a given collection.
+   * Collections known from a string literal are checked at compile time.
+   * @throws {KRNError} if the collection is not found
+   */
+  resourceId(collection: C): string {
+    for (const seg of this._segments) {
+      if (seg.collection === collection) {
+        return seg.resourceId;
+      }
+    }
+    throw new KRNError(
+      KRNErrorCode.RESOURCE_NOT_FOUND,
+      `resource not found: ${collection}`,
+    );
+  }
+
+  /**
+   * Get the resource ID for a given collection, returning null if not found.
+   */
+  tryResourceId(collection: string): string | null {
+    try {
+      return this.resourceId(collection as C);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the resource ID for a given collection, decoded with decodeResourceId.
+   * @throws {KRNError} if the collection is not found or the ID is not a valid encoding
+   */
+  decodedResourceId(collection: C): string {
+    return decodeResourceId(this.resourceId(collection));
+  }
+
+  /** Check if the KRN has a resource with the given collection. */
+  hasResource(collection: string): boolean {
+    return this._segments.some((seg) => seg.collection === collection);
+  }
+
+  /** Get the last resource ID in the path. */
+  basename(): string {
+    const lastSegment = this._segments[this._segments.length - 1];
+    return lastSegment?.resourceId ?? "";
+  }
+
+  /** Get the last collection name in the path. */
+  basenameCollection(): string {
+    const lastSegment = this._segments[this._segments.length - 1];
+    return lastSegment?.collection ?? "";
+  }
+
+  /**
+   * Get the resource kind of the last collection, see KRNKindRegistry.
+   * Uses the registry of the parse options unless one is given.
+   * Returns null if the collection is not registered.
+   */
+  kind(kinds = this._options.kinds): ResourceKind | null {
+    return kinds?.kindOf(this) ?? null;
+  }
+
+  /**
+   * Get the declared parent kind of the resource kind, or null if there is
+   * none. Uses the registry of the parse options unless one is given.
+   */
+  parentKind(kinds = this._options.kinds): ResourceKind | null {
+    return kinds?.parentKindOf(this) ?? null;
+  }
+
+  /**
+   * Get a display label like "Control 5.1.1 in Framework iso27001", see
+   * KRNKindRegistry.labelOf. Uses the registry of the parse options unless
+   * one is given; without registry, returns the KRN string.
+   */
+  label(kinds = this._options.kinds): string {
+    return kinds ? kinds.labelOf(this) : this.toString();
+  }
+
+  /** Get a copy of all segments in the KRN. */
+  segments(): Segment<C>[] {
+    return [...this._segments];
+  }
+
+  /** Get the number of resource levels in the KRN. */
+  depth(): number {
+    return this._segments.length;
+  }
+
+  /**
+   * Get the parent KRN (without the last segment), or null if this is a root resource.
+   * The parent is unversioned unless options.version is "keep".
+   */
+  parent(options: HierarchyOptions = {}): KRN | null {
+    if (this._segments.length <= 1) {
+      return null;
+    }
+    return this.sliceSegments(0, -1, options);
+  }
+
+  /**
+   * Iterate over the ancestors of this KRN, from the parent up to the root.
+   * The ancestors are unversioned unless options.version is "keep".
+   */
+  *ancestors(options: HierarchyOptions = {}): IterableIterator<KRN> {
+    for (let i = this._segments.length - 1; i >= 1; i--) {
+      yield this.sliceSegments(0, i, options);
+    }
+  }
+
+  /**
+   * Get the root KRN (only the first segment), which is this KRN itself
+   * for root resources. It is unversioned unless options.version is "keep".
+   */
+  root(options: HierarchyOptions = {}): KRN {
+    return this.sliceSegments(0, 1, options);
+  }
+
+  /**
+   * Check if this KRN is a proper ancestor of another KRN: same domain and
+   * service, and its segments are a prefix of the other's.
+   */
+  isAncestorOf(other: KRN, options: HierarchyCompareOptions = {}): boolean {
+    if (
+      this._service !== other._service ||
+      this._domain !== other._domain ||
+      this._segments.length >= other._segments.length ||
+      (options.version === "match" && this._version !== other._version)
+    ) {
+      return false;
+    }
+    return this._segments.every((seg, i) => {
+      const otherSeg = other._segments[i];
+      return (
+        seg.collection === otherSeg?.collection &&
+        seg.resourceId === otherSeg.resourceId
+      );
+    });
+  }
+
+  /**
+   * Check if this KRN is a proper descendant of another KRN.
+   */
+  isDescendantOf(other: KRN, options: HierarchyCompareOptions = {}): boolean {
+    return other.isAncestorOf(this, options);
+  }
+
+  /**
+   * Get the deepest KRN that both KRNs are equal to or below, e.g.
+   * //kopexa.com/frameworks/iso27001 for two of its controls. Returns null
+   * if the domains, services or root segments differ.
+   *
+   * The result is unversioned unless options.version is "keep" and both
+   * KRNs have the same version.
+   */
+  static commonAncestor(
+    a: KRN,
+    b: KRN,
+    options: HierarchyOptions = {},
+  ): KRN | null {
+    if (a._service !== b._service || a._domain !== b._domain) {
+      return null;
+    }
+    let length = 0;
+    while (length < a._segments.length && length < b._segments.length) {
+      const segA = a._segments[length];
+      const segB = b._segments[length];
+      if (
+        segA?.collection !== segB?.collection ||
+        segA?.resourceId !== segB?.resourceId
+      ) {
+        break;
+      }
+      length++;
+    }
+    if (length === 0) {
+      return null;
+    }
+    const keep = options.version === "keep" && a._version === b._version;
+    return a.sliceSegments(0, length, { version: keep ? "keep" : "drop" });
+  }
+
+  /**
+   * Get a KRN with the segments from start to end (exclusive), with
+   * negative indices counting from the end like Array.slice. The service is
+   * kept; the version only if options.version is "keep".
+   * @throws {KRNError} if the slice is empty or does not follow the schema
+   * of its service in the service registry
+   */
+  slice(start: number, end?: number, options: HierarchyOptions = {}): KRN {
+    if (this._segments.slice(start, end).length === 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        `slice ${start}:${end ?? this._segments.length} of ${this.toString()} is empty`,
+      );
+    }
+    const k = this.sliceSegments(start, end ?? this._segments.length, options);
+    this._options.services?.validate(k);
+    return k;
+  }
+
+  /**
+   * Create a new KRN with the resource ID of a collection replaced, which
+   * may be anywhere in the path. If the collection occurs more than once,
+   * the first one is replaced, as resourceId() reads it. The version is kept
+   * unless options.version is "drop".
+   * @throws {KRNError} if the resource ID is invalid or the collection is not found
+   */
+  withResourceId(
+    collection: C,
+    resourceId: string,
+    options: HierarchyOptions = {},
+  ): KRN<C> {
+    if (!isValidResourceId(resourceId)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_RESOURCE_ID,
+        `invalid resource ID: ${resourceId}`,
+      );
+    }
+    const index = this._segments.findIndex(
+      (seg) => seg.collection === collection,
+    );
+    if (index === -1) {
+      throw new KRNError(
+        KRNErrorCode.RESOURCE_NOT_FOUND,
+        `resource not found: ${collection}`,
+      );
+    }
+    const segments = [...this._segments];
+    segments[index] = { collection, resourceId };
+    return new KRN(
+      this._service,
+      segments,
+      options.version === "drop" ? "" : this._version,
+      this._domain,
+      this._options,
+    );
+  }
+
+  /**
+   * Create a new KRN with the specified version.
+   * @throws {KRNError} if the version is invalid
+   */
+  withVersion(version: string): KRN<C> {
+    if (!isValidVersion(version)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_VERSION,
+        `invalid version format: ${version}`,
+      );
+    }
+    return new KRN(
+      this._service,
+      [...this._segments],
+      version,
+      this._domain,
+      this._options,
+    );
+  }
+
+  /** Create a new KRN without the version. */
+  withoutVersion(): KRN<C> {
+    return new KRN(
+      this._service,
+      [...this._segments],
+      "",
+      this._domain,
+      this._options,
+    );
+  }
+
+  /**
+   * Create a new KRN with the specified service. If this KRN was parsed
+   * with allowed services or a service registry, the service must be
+   * allowed and registered there.
+   * @throws {KRNError} if the service name is invalid, not allowed or not
+   * registered
+   */
+  withService(service: string): KRN<C> {
+    if (!isValidService(service)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `invalid service name: ${service}`,
+      );
+    }
+    const serviceErr = serviceError(service, this._options);
+    if (serviceErr) {
+      throw serviceErr;
+    }
+    const k = new KRN(
+      service,
+      [...this._segments],
+      this._version,
+      this._domain,
+      this._options,
+    );
+    this._options.services?.validate(k);
+    return k;
+  }
+
+  /**
+   * Create a new KRN without the service.
+   * @throws {KRNError} if "" is not allowed or not registered in the
+   * service registry
+   */
+  withoutService(): KRN<C> {
+    const serviceErr = serviceError("", this._options);
+    if (serviceErr) {
+      throw serviceErr;
+    }
+    const k = new KRN(
+      "",
+      [...this._segments],
+      this._version,
+      this._domain,
+      this._options,
+    );
+    this._options.services?.validate(k);
+    return k;
+  }
+
+  /** Check if this KRN equals another KRN. */
+  equals(other: KRN | null): boolean {
+    if (!other) {
+      return false;
+    }
+    return this.toString() === other.toString();
+  }
+
+  /**
+   * Compare the version of this KRN with the version of another KRN,
+   * returning -1, 0 or 1. See compareVersions for the order; unversioned
+   * KRNs sort before versioned ones. The paths are not compared.
+   */
+  compareVersion(other: KRN): number {
+    if (!this._version || !other._version) {
+      return Number(Boolean(this._version)) - Number(Boolean(other._version));
+    }
+    return compareVersions(this._version, other._version);
+  }
+
+  /** Check if this KRN equals another KRN string. */
+  equalsString(other: string): boolean {
+    const otherKrn = KRN.tryParse(other, { domain: this._domain });
+    return otherKrn !== null && this.equals(otherKrn);
+  }
+
+  /**
+   * Get the shortest reference that resolves to this KRN against a base,
+   * so that KRN.resolve(base, k.relativeTo(base)) equals k.
+   * Returns the full KRN string if the domains or services differ.
+   */
+  relativeTo(base: KRN): string {
+    if (base._service !== this._service || base._domain !== this._domain) {
+      return this.toString();
+    }
+
+    const version = this._version ? `@${this._version}` : "";
+    const segs = this._segments;
+    const baseSegs = base._segments;
+
+    let common = 0;
+    while (
+      common < segs.length &&
+      common < baseSegs.length &&
+      segs[common]?.collection === baseSegs[common]?.collection &&
+      segs[common]?.resourceId === baseSegs[common]?.resourceId
+    ) {
+      common++;
+    }
+
+    if (common === segs.length && common === baseSegs.length) {
+      if (this._version === base._version) {
+        return "";
+      }
+      if (this._version) {
+        return version;
+      }
+      // An empty path keeps the base version, so step out and back in
+      common--;
+    }
+
+    const relative = [
+      ...Array<string>(baseSegs.length - common).fill(".."),
+      ...segs.slice(common).map((seg) => `${seg.collection}/${seg.resourceId}`),
+    ].join("/");
+    const absolute = `/${this.path()}`;
+
+    return (absolute.length < relative.length ? absolute : relative) + version;
+  }
+
+  /**
+   * Create a child KRN from this KRN.
+   * @throws {KRNError} if the collection or resourceId is invalid, or the
+   * child does not follow the schema of its service in the service registry
+   */
+  child<K extends string>(collection: K, resourceId: string): KRN<C | K> {
+    if (!collection) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "collection cannot be empty",
+      );
+    }
+    if (!isValidResourceId(resourceId)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_RESOURCE_ID,
+        `invalid resource ID: ${resourceId}`,
+      );
+    }
+    const collectionErr = collectionError(
+      collection,
+      this._options.collectionRules,
+    );
+    if (collectionErr) {
+      throw collectionErr;
+    }
+    const k = new KRN<C | K>(
+      this._service,
+      [...this._segments, { collection, resourceId }],
+      "", // Child doesn't inherit version
+      this._domain,
+      this._options,
+    );
+    this._options.services?.validate(k);
+    return k;
+  }
+
+  /** Get a KRN with a non-empty range of the segments. */
+  private sliceSegments(
+    start: number,
+    end: number,
+    options: HierarchyOptions,
+  ): KRN {
+    return new KRN<string>(
+      this._service,
+      this._segments.slice(start, end),
+      options.version === "keep" ? this._version : "",
+      this._domain,
+      this._options,
+    );
+  }
+}
+
+/**
+ * Builder provides a fluent API for building KRNs.
+ */
+export class KRNBuilder {
+  private _service = "";
+  private _segments: Segment[] = [];
+  private _version = "";
+  private _error: KRNError | null = null;
+
+  /**
+   * Create a builder. Options set another base domain or restrict the
+   * services, like for KRN.parse.
+   */
+  constructor(private readonly _options: KRNParseOptions = {}) {}
+
+  /**
+   * Set the service for the KRN (optional).
+   */
+  service(service: string): this {
+    if (this._error) return this;
+
+    if (!isValidService(service)) {
+      this._error = new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `invalid service name: ${service}`,
+      );
+      return this;
+    }
+    if (this._options.services && !this._options.services.has(service)) {
+      this._error = new KRNError(
+        KRNErrorCode.UNKNOWN_SERVICE,
+        `unknown service: ${service}`,
+      );
+      return this;
+    }
+
+    this._service = service;
+    return this;
+  }
+
+  /**
+   * Add a resource segment to the builder.
+   */
+  resource(collection: string, resourceId: string): this {
+    if (this._error) return this;
+
+    if (!collection) {
+      this._error = new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "collection cannot be empty",
+      );
+      return this;
+    }
+    if (!isValidResourceId(resourceId)) {
+      this._error = new KRNError(
+        KRNErrorCode.INVALID_RESOURCE_ID,
+        `invalid resource ID: ${resourceId}`,
+      );
+      return this;
+    }
+    const collectionErr = collectionError(
+      collection,
+      this._options.collectionRules,
+    );
+    if (collectionErr) {
+      this._error = collectionErr;
+      return this;
+    }
+
+    this._segments.push({ collection, resourceId });
+    return this;
+  }
+
+  /**
+   * Set the version for the KRN.
+   */
+  version(version: string): this {
+    if (this._error) return this;
+
+    if (!isValidVersion(version)) {
+      this._error = new KRNError(
+        KRNErrorCode.INVALID_VERSION,
+        `invalid version format: ${version}`,
+      );
+      return this;
+    }
+
+    this._version = version;
+    return this;
+  }
+
+  /**
+   * Build the KRN.
+   * @throws {KRNError} if any error occurred during building
+   */
+  build(): KRN {
+    if (this._error) {
+      throw this._error;
+    }
+
+    if (this._segments.length === 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least one resource",
+      );
+    }
+
+    // Use parse to create the KRN to ensure consistency
+    let krn = `//${this._service ? `${this._service}.` : ""}${baseDomain(this._options)}`;
+    for (const seg of this._segments) {
+      krn += `/${seg.collection}/${seg.resourceId}`;
+    }
+    if (this._version) {
+      krn += `@${this._version}`;
+    }
+
+    return KRN.parse(krn, this._options);
+  }
+
+  /**
+   * Build the KRN, returning null if invalid instead of throwing.
+   */
+  tryBuild(): KRN | null {
+    try {
+      return this.build();
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create a new KRN builder.
+ */
+export function krn(): KRNBuilder {
+  return new KRNBuilder();
+}
+
+/**
+ * Quick resource extraction from a KRN string.
+ * @throws {KRNError} if the KRN is invalid or the collection is not found
+ */
+export function getResource(krnString: string, collection: string): string {
+  const k = KRN.parse(krnString);
+  return k.resourceId(collection);
+}
+
+/**
+ * Check if a value is a valid KRN string.
+ */
+export function isKRNString(value: unknown): value is KRNString {
+  return typeof value === "string" && KRN.isValid(value);
+}
+
+/**
+ * Assert that a value is a valid KRN string.
+ * @throws {KRNError} if the value is not a string or not a valid KRN
+ */
+export function assertKRN(value: unknown): asserts value is KRNString {
+  if (typeof value !== "string") {
+    throw new KRNError(
+      KRNErrorCode.INVALID_KRN,
+      `expected KRN string, got ${typeof value}`,
+    );
+  }
+  KRN.parse(value);
+}
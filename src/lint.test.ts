@@ -0,0 +1,330 @@
+import { describe, expect, it } from "vitest";
+import { formatLintReport, KRNLintCode, lintKRNs } from "./index.js";
+
+const iso = "//catalog.kopexa.com/frameworks/iso27001";
+
+describe("lintKRNs", () => {
+  describe("CSV", () => {
+    const csv = [
+      "name,control,framework",
+      `A,${iso}/controls/a@v1,${iso}@v1`,
+      `B,${iso}/controls/iso 27001,${iso}@v1`,
+      `"C, quoted","${iso}/controls/a@v1",${iso}`,
+      "",
+    ].join("\n");
+
+    it("reports issues with line and column", () => {
+      const report = lintKRNs(csv, {
+        format: "csv",
+        fields: ["control", "framework"],
+        unique: ["control"],
+        requireVersion: true,
+      });
+      expect(report.checked).toBe(6);
+      expect(report.valid).toBe(3);
+      expect(report.issues).toEqual({
+        INVALID_RESOURCE_ID: [
+          {
+            code: KRNLintCode.INVALID_RESOURCE_ID,
+            message: "invalid resource ID: iso 27001",
+            line: 3,
+            column: 3,
+            field: "control",
+            value: `${iso}/controls/iso 27001`,
+          },
+        ],
+        DUPLICATE: [
+          expect.objectContaining({
+            message: "duplicate of line 2, column 3",
+            line: 4,
+            column: 13,
+            field: "control",
+          }),
+        ],
+        UNVERSIONED: [
+          expect.objectContaining({ line: 4, column: 70, field: "framework" }),
+        ],
+      });
+    });
+
+    it("groups issues in the order of the codes", () => {
+      const report = lintKRNs(csv, {
+        format: "csv",
+        fields: ["control", "framework"],
+        unique: ["control"],
+        requireVersion: true,
+      });
+      expect(Object.keys(report.issues)).toEqual([
+        "INVALID_RESOURCE_ID",
+        "DUPLICATE",
+        "UNVERSIONED",
+      ]);
+    });
+
+    it("handles quotes, line breaks and CRLF", () => {
+      const text = `id,krn\r\n"multi\r\nline","${iso}"\r\n2,"bad ""quoted"""\r\n`;
+      const report = lintKRNs(text, { format: "csv", fields: ["krn"] });
+      expect(report.checked).toBe(2);
+      expect(report.issues.INVALID_KRN).toEqual([
+        expect.objectContaining({ line: 4, column: 3, value: 'bad "quoted"' }),
+      ]);
+    });
+
+    it("supports other delimiters and a byte order mark", () => {
+      const text = `\uFEFFid;krn\n1;${iso}`;
+      const report = lintKRNs(text, {
+        format: "csv",
+        fields: ["krn"],
+        delimiter: ";",
+      });
+      expect(report).toEqual({ checked: 1, valid: 1, issues: {} });
+    });
+
+    it("reports empty cells unless allowed", () => {
+      const text = `id,krn\n1,\n2,""\n`;
+      expect(
+        lintKRNs(text, { format: "csv", fields: ["krn"] }).issues.EMPTY_KRN,
+      ).toHaveLength(2);
+      expect(
+        lintKRNs(text, { format: "csv", fields: ["krn"], allowEmpty: true }),
+      ).toEqual({ checked: 2, valid: 2, issues: {} });
+    });
+
+    it("reports missing columns and cells", () => {
+      const report = lintKRNs(`id,krn\n1\n2,${iso}`, {
+        format: "csv",
+        fields: ["krn", "parent"],
+      });
+      expect(report.issues.MISSING_FIELD).toEqual([
+        expect.objectContaining({ message: "missing column: parent", line: 1 }),
+        expect.objectContaining({ message: "missing cell: krn", line: 2 }),
+      ]);
+    });
+
+    it("reports syntax errors", () => {
+      const report = lintKRNs(`krn\n${iso}\n"${iso}`, {
+        format: "csv",
+        fields: ["krn"],
+      });
+      expect(report.checked).toBe(1);
+      expect(report.issues.SYNTAX_ERROR).toEqual([
+        {
+          code: KRNLintCode.SYNTAX_ERROR,
+          message: "unterminated quoted cell",
+          line: 3,
+          column: 1,
+          field: "",
+        },
+      ]);
+    });
+  });
+
+  describe("JSON", () => {
+    const json = `{
+  "framework": "${iso}@v1",
+  "controls": [
+    { "id": "${iso}/controls/a", "parent": null },
+    { "id": "//isms.kopexa.com/controls/b", "parent": 42 }
+  ]
+}`;
+
+    it("checks values at paths with their location", () => {
+      const report = lintKRNs(json, {
+        format: "json",
+        fields: ["framework", "controls.*.id", "controls.*.parent"],
+        services: ["catalog"],
+      });
+      expect(report.checked).toBe(5);
+      expect(report.valid).toBe(2);
+      expect(report.issues).toEqual({
+        INVALID_KRN: [
+          expect.objectContaining({
+            message: "expected KRN string, got null",
+            line: 4,
+            column: 78,
+            field: "controls.0.parent",
+          }),
+          expect.objectContaining({
+            message: "expected KRN string, got number",
+            line: 5,
+            column: 55,
+            field: "controls.1.parent",
+          }),
+        ],
+        UNKNOWN_SERVICE: [
+          expect.objectContaining({
+            message: "unknown service: isms",
+            line: 5,
+            column: 13,
+            field: "controls.1.id",
+            value: "//isms.kopexa.com/controls/b",
+          }),
+        ],
+      });
+    });
+
+    it("reports values that are objects or arrays", () => {
+      const report = lintKRNs(`{"a": {"b": 1}, "c": []}`, {
+        format: "json",
+        fields: ["a", "c"],
+      });
+      expect(report.issues.INVALID_KRN?.map((i) => i.message)).toEqual([
+        "expected KRN string, got object",
+        "expected KRN string, got array",
+      ]);
+    });
+
+    it("checks the root value", () => {
+      expect(lintKRNs(`"${iso}"`, { format: "json", fields: [""] })).toEqual({
+        checked: 1,
+        valid: 1,
+        issues: {},
+      });
+    });
+
+    it("decodes escaped strings", () => {
+      const report = lintKRNs(`["\\/\\/kopexa.com\\/a\\/b"]`, {
+        format: "json",
+        fields: ["*"],
+      });
+      expect(report.valid).toBe(1);
+    });
+
+    it("reports syntax errors", () => {
+      for (const text of [
+        `{"a": "${iso}",}`,
+        `{"a" "${iso}"}`,
+        `["${iso}"`,
+        `["unterminated]`,
+        `[01]`,
+        `[tru]`,
+        `{} {}`,
+        "",
+      ]) {
+        const report = lintKRNs(text, { format: "json", fields: ["a"] });
+        expect(report.issues.SYNTAX_ERROR, text).toHaveLength(1);
+      }
+    });
+
+    it("handles deeply nested values", () => {
+      const depth = 20000;
+      const nested = `${"[".repeat(depth)}"${iso}"${"]".repeat(depth)}`;
+      const report = lintKRNs(nested, {
+        format: "json",
+        fields: [Array<string>(depth).fill("0").join(".")],
+      });
+      expect(report).toEqual({ checked: 1, valid: 1, issues: {} });
+      expect(
+        lintKRNs(`${"[".repeat(depth)}]`, { format: "json", fields: ["x"] })
+          .issues.SYNTAX_ERROR,
+      ).toHaveLength(1);
+    });
+
+    it("scans nested objects and arrays in order", () => {
+      const report = lintKRNs(
+        `{"a": [[], {"b": ["${iso}"]}, {}], "c": {"d": {}}, "e": "${iso}"}`,
+        { format: "json", fields: ["a.1.b.0", "c.d", "e"] },
+      );
+      expect(report.checked).toBe(3);
+      expect(report.valid).toBe(2);
+      expect(report.issues.INVALID_KRN?.[0]?.field).toBe("c.d");
+    });
+  });
+
+  describe("NDJSON", () => {
+    it("checks each line and continues after syntax errors", () => {
+      const text = [
+        `{"krn": "${iso}"}`,
+        "",
+        `{"krn": "${iso}",`,
+        `{"krn": "//kopexa.com/frameworks/x"}`,
+        `{"krn": "//kopexa.com/frameworks/x"}`,
+      ].join("\n");
+      const report = lintKRNs(text, {
+        format: "ndjson",
+        fields: ["krn"],
+        unique: ["krn"],
+        services: ["", "catalog"],
+      });
+      expect(report.checked).toBe(3);
+      expect(report.valid).toBe(2);
+      expect(report.issues).toEqual({
+        DUPLICATE: [
+          expect.objectContaining({
+            message: "duplicate of line 4, column 9",
+            line: 5,
+            column: 9,
+          }),
+        ],
+        SYNTAX_ERROR: [expect.objectContaining({ line: 3, column: 52 })],
+      });
+    });
+  });
+
+  it("handles large inputs", () => {
+    const rows = ["krn"];
+    for (let i = 0; i < 20000; i++) {
+      rows.push(`//kopexa.com/controls/c-${i}@v1`);
+    }
+    const report = lintKRNs(rows.join("\n"), {
+      format: "csv",
+      fields: ["krn"],
+      unique: ["krn"],
+      requireVersion: true,
+    });
+    expect(report).toEqual({ checked: 20000, valid: 20000, issues: {} });
+  });
+});
+
+describe("formatLintReport", () => {
+  it("formats issues grouped by code", () => {
+    const report = lintKRNs(`id,krn\n1,${iso}\n2,invalid\n3,${iso}`, {
+      format: "csv",
+      fields: ["krn"],
+      unique: ["krn"],
+    });
+    expect(formatLintReport(report, "controls.csv")).toBe(
+      [
+        "INVALID_KRN (1)",
+        "  controls.csv:3:3 krn: must start with //",
+        "DUPLICATE (1)",
+        "  controls.csv:4:3 krn: duplicate of line 2, column 3",
+        "3 KRNs checked, 1 valid, 2 issues",
+      ].join("\n"),
+    );
+  });
+
+  it("formats reports without issues", () => {
+    expect(
+      formatLintReport(lintKRNs(`"${iso}"`, { format: "json", fields: [""] })),
+    ).toBe("1 KRNs checked, 1 valid, 0 issues");
+  });
+
+  it("formats syntax errors without field", () => {
+    const report = lintKRNs("{", { format: "json", fields: [""] });
+    expect(formatLintReport(report)).toBe(
+      [
+        "SYNTAX_ERROR (1)",
+        "  1:2 expected property name",
+        "0 KRNs checked, 0 valid, 1 issue",
+      ].join("\n"),
+    );
+  });
+
+  describe("parse options", () => {
+    it("checks KRNs under another domain", () => {
+      const text = [
+        "control",
+        "//kopexa.test/frameworks/x",
+        "//kopexa.com/frameworks/x",
+      ].join("\n");
+      const report = lintKRNs(text, {
+        format: "csv",
+        fields: ["control"],
+        parseOptions: { domain: "kopexa.test" },
+      });
+      expect(report.valid).toBe(1);
+      expect(report.issues.INVALID_DOMAIN?.[0]?.line).toBe(3);
+    });
+  });
+});
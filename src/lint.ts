@@ -0,0 +1,705 @@
+/**
+ * Bulk validation - check the KRNs in CSV columns, JSON paths or NDJSON
+ * fields before an import, and report all issues with their location.
+ *
+ * Fields are CSV column names from the header row, or JSON paths like in
+ * krnReviver: dot-separated keys where `*` matches any key or array index
+ * and "" selects the root value. NDJSON paths apply to each line.
+ *
+ * Example:
+ *   const report = lintKRNs(csv, {
+ *     format: "csv",
+ *     fields: ["control", "framework"],
+ *     unique: ["control"],
+ *     requireVersion: true,
+ *   });
+ *   console.log(formatLintReport(report, "controls.csv"));
+ *   // INVALID_RESOURCE_ID (1)
+ *   //   controls.csv:3:1 control: invalid resource ID: iso 27001
+ *   // ...
+ */
+
+import { KRN, KRNError, KRNErrorCode, type KRNParseOptions } from "./krn.js";
+
+/** Issue codes of lint reports - the KRN error codes and lint checks */
+export const KRNLintCode = {
+  ...KRNErrorCode,
+  /** A KRN of a unique field occurs more than once */
+  DUPLICATE: "DUPLICATE",
+  /** A KRN without version where versions are required */
+  UNVERSIONED: "UNVERSIONED",
+  /** A CSV column is missing from the header or a row */
+  MISSING_FIELD: "MISSING_FIELD",
+  /** The input is not valid CSV, JSON or NDJSON */
+  SYNTAX_ERROR: "SYNTAX_ERROR",
+} as const;
+
+export type KRNLintCode = (typeof KRNLintCode)[keyof typeof KRNLintCode];
+
+/** Input formats of lintKRNs */
+export type KRNLintFormat = "csv" | "json" | "ndjson";
+
+/** Options for lintKRNs */
+export interface KRNLintOptions {
+  format: KRNLintFormat;
+  /** CSV column names or JSON paths of the KRN values */
+  fields: string[];
+  /** Fields whose KRNs must not occur more than once */
+  unique?: string[];
+  /** Report KRNs without version */
+  requireVersion?: boolean;
+  /** Known services, "" for KRNs without service. If unset, any service. */
+  services?: string[];
+  /** Skip empty CSV cells, empty strings and JSON nulls */
+  allowEmpty?: boolean;
+  /** Delimiter of CSV cells. Defaults to ",". */
+  delimiter?: string;
+  /** Options for parsing the KRNs, e.g. another base domain, like for KRN.parse */
+  parseOptions?: KRNParseOptions;
+}
+
+/** An issue found by lintKRNs */
+export interface KRNLintIssue {
+  code: KRNLintCode;
+  message: string;
+  /** Line of the value, starting at 1 */
+  line: number;
+  /** Column of the value in characters, starting at 1 */
+  column: number;
+  /** CSV column name or JSON path of the value, "" for syntax errors */
+  field: string;
+  /** The offending value, if it is a string */
+  value?: string;
+}
+
+/** Result of lintKRNs */
+export interface KRNLintReport {
+  /** Number of values checked */
+  checked: number;
+  /** Number of values without issues */
+  valid: number;
+  /** Issues grouped by code, each group ordered by location */
+  issues: Partial<Record<KRNLintCode, KRNLintIssue[]>>;
+}
+
+/** Byte order mark, skipped at the start of the input */
+const BOM = "\uFEFF";
+
+/** Path token matching any key or array index */
+const WILDCARD = "*";
+
+/** JSON number, validated after scanning its characters */
+const JSON_NUMBER_PATTERN = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?$/;
+
+/** Thrown for malformed input, with the offset of the problem */
+class LintSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number,
+  ) {
+    super(message);
+  }
+}
+
+/** Get the offsets at which the lines of a text start. */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** Collects the issues of the checked values. */
+class Collector {
+  checked = 0;
+  valid = 0;
+  readonly issues: KRNLintIssue[] = [];
+  /** First offset of each KRN by unique field */
+  private readonly seen = new Map<string, Map<string, number>>();
+
+  constructor(
+    private readonly options: KRNLintOptions,
+    private readonly starts: number[],
+  ) {}
+
+  /** Get the 1-based line and column of an offset. */
+  locate(offset: number): { line: number; column: number } {
+    let lo = 0;
+    let hi = this.starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if ((this.starts[mid] ?? 0) <= offset) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return { line: lo + 1, column: offset - (this.starts[lo] ?? 0) + 1 };
+  }
+
+  issue(
+    code: KRNLintCode,
+    message: string,
+    offset: number,
+    field: string,
+    value?: string,
+  ): void {
+    const issue: KRNLintIssue = {
+      code,
+      message,
+      ...this.locate(offset),
+      field,
+    };
+    if (value !== undefined) {
+      issue.value = value;
+    }
+    this.issues.push(issue);
+  }
+
+  /**
+   * Check a value. type is the JSON type of non-string values; unique is
+   * the option field the value belongs to.
+   */
+  check(
+    field: string,
+    unique: string,
+    offset: number,
+    value: string | null,
+    type = "string",
+  ): void {
+    this.checked++;
+    if (value === null || value === "") {
+      if (this.options.allowEmpty) {
+        this.valid++;
+        return;
+      }
+      if (value === null) {
+        this.issue(
+          KRNLintCode.INVALID_KRN,
+          `expected KRN string, got ${type}`,
+          offset,
+          field,
+        );
+        return;
+      }
+    }
+
+    let k: KRN;
+    try {
+      k = KRN.parse(value, this.options.parseOptions);
+    } catch (err) {
+      if (!(err instanceof KRNError)) {
+        throw err;
+      }
+      this.issue(err.code, err.message, offset, field, value);
+      return;
+    }
+
+    const count = this.issues.length;
+    const { services, requireVersion } = this.options;
+    if (services && !services.includes(k.service)) {
+      this.issue(
+        KRNLintCode.UNKNOWN_SERVICE,
+        k.service ? `unknown service: ${k.service}` : "missing service",
+        offset,
+        field,
+        value,
+      );
+    }
+    if (requireVersion && !k.version) {
+      this.issue(
+        KRNLintCode.UNVERSIONED,
+        "missing version",
+        offset,
+        field,
+        value,
+      );
+    }
+    if (this.options.unique?.includes(unique)) {
+      let seen = this.seen.get(unique);
+      if (!seen) {
+        seen = new Map();
+        this.seen.set(unique, seen);
+      }
+      const key = k.toString();
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, offset);
+      } else {
+        const { line, column } = this.locate(first);
+        this.issue(
+          KRNLintCode.DUPLICATE,
+          `duplicate of line ${line}, column ${column}`,
+          offset,
+          field,
+          value,
+        );
+      }
+    }
+    if (this.issues.length === count) {
+      this.valid++;
+    }
+  }
+}
+
+/** A CSV cell and the offset it starts at */
+interface Cell {
+  value: string;
+  offset: number;
+}
+
+/**
+ * Iterate over the rows of CSV text (RFC 4180): cells are separated by the
+ * delimiter, rows by \n or \r\n, and quoted cells may contain delimiters,
+ * line breaks and "" for a quote. Blank lines are skipped.
+ */
+function* csvRows(
+  text: string,
+  start: number,
+  delimiter: string,
+): Generator<Cell[]> {
+  const isEnd = (i: number) =>
+    i >= text.length ||
+    text[i] === delimiter ||
+    text[i] === "\n" ||
+    text[i] === "\r";
+
+  let pos = start;
+  while (pos < text.length) {
+    const cells: Cell[] = [];
+    for (;;) {
+      const offset = pos;
+      let value = "";
+      if (text[pos] === '"') {
+        pos++;
+        for (;;) {
+          const quote = text.indexOf('"', pos);
+          if (quote === -1) {
+            throw new LintSyntaxError("unterminated quoted cell", offset);
+          }
+          value += text.slice(pos, quote);
+          pos = quote + 1;
+          if (text[pos] !== '"') {
+            break;
+          }
+          value += '"';
+          pos++;
+        }
+        if (!isEnd(pos)) {
+          throw new LintSyntaxError(
+            "expected delimiter after quoted cell",
+            pos,
+          );
+        }
+      } else {
+        while (!isEnd(pos)) {
+          pos++;
+        }
+        value = text.slice(offset, pos);
+      }
+      cells.push({ value, offset });
+      if (pos >= text.length || text[pos] !== delimiter) {
+        break;
+      }
+      pos++;
+    }
+    if (text[pos] === "\r") {
+      pos++;
+    }
+    if (text[pos] === "\n") {
+      pos++;
+    }
+    const [first] = cells;
+    if (cells.length > 1 || (first && first.value !== "")) {
+      yield cells;
+    } else if (first && text[first.offset] === '"') {
+      // A quoted empty cell is a row, not a blank line
+      yield cells;
+    }
+  }
+}
+
+function lintCSV(
+  text: string,
+  start: number,
+  options: KRNLintOptions,
+  collector: Collector,
+): void {
+  const rows = csvRows(text, start, options.delimiter ?? ",");
+  const header = rows.next();
+  if (header.done) {
+    return;
+  }
+
+  const columns: [string, number][] = [];
+  const names = header.value.map((cell) => cell.value);
+  for (const field of options.fields) {
+    const index = names.indexOf(field);
+    if (index === -1) {
+      collector.issue(
+        KRNLintCode.MISSING_FIELD,
+        `missing column: ${field}`,
+        start,
+        field,
+      );
+    } else {
+      columns.push([field, index]);
+    }
+  }
+
+  for (const cells of rows) {
+    for (const [field, index] of columns) {
+      const cell = cells[index];
+      if (cell) {
+        collector.check(field, field, cell.offset, cell.value);
+      } else {
+        collector.issue(
+          KRNLintCode.MISSING_FIELD,
+          `missing cell: ${field}`,
+          cells[0]?.offset ?? start,
+          field,
+        );
+      }
+    }
+  }
+}
+
+/** A value of JSON text whose path matches a field */
+interface JSONMatch {
+  /** The field that matched */
+  field: string;
+  /** Path of the value, dot-separated */
+  path: string;
+  offset: number;
+  /** The value if it is a string, null otherwise */
+  value: string | null;
+  /** JSON type of the value */
+  type: string;
+}
+
+/** An object or array of JSON text that is being scanned */
+interface JSONContainer {
+  /** Closing character, } or ] */
+  close: string;
+  /** Index of the current member */
+  index: number;
+}
+
+/**
+ * Scan the JSON value in text[start, end) and return the values whose path
+ * matches a field, with their offsets. Unlike JSON.parse, this keeps the
+ * offsets of the values. Nested values are tracked on a stack instead of
+ * recursing, so deeply nested JSON cannot overflow the call stack.
+ * @throws {LintSyntaxError} if the text is not valid JSON
+ */
+function scanJSON(
+  text: string,
+  start: number,
+  end: number,
+  match: (path: string[]) => string | undefined,
+): JSONMatch[] {
+  const matches: JSONMatch[] = [];
+  let pos = start;
+  const path: string[] = [];
+  const containers: JSONContainer[] = [];
+
+  const fail = (message: string): never => {
+    throw new LintSyntaxError(message, pos);
+  };
+
+  const skipWhitespace = () => {
+    while (
+      pos < end &&
+      (text[pos] === " " ||
+        text[pos] === "\t" ||
+        text[pos] === "\n" ||
+        text[pos] === "\r")
+    ) {
+      pos++;
+    }
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char || pos >= end) {
+      fail(`expected ${char}`);
+    }
+    pos++;
+  };
+
+  const readString = (): string => {
+    const from = pos;
+    for (pos++; pos < end; pos++) {
+      const char = text[pos] as string;
+      if (char === '"') {
+        pos++;
+        try {
+          return JSON.parse(text.slice(from, pos)) as string;
+        } catch {
+          pos = from;
+          return fail("invalid string");
+        }
+      }
+      if (char === "\\") {
+        pos++;
+      } else if (char < " ") {
+        return fail("control character in string");
+      }
+    }
+    pos = from;
+    return fail("unterminated string");
+  };
+
+  /** Read the key of the current member of a container onto the path. */
+  const readKey = (container: JSONContainer) => {
+    if (container.close === "}") {
+      skipWhitespace();
+      if (text[pos] !== '"' || pos >= end) {
+        fail("expected property name");
+      }
+      path.push(readString());
+      expect(":");
+    } else {
+      path.push(String(container.index));
+    }
+  };
+
+  /**
+   * Read a value. Objects and arrays are only opened: returns true if a
+   * non-empty one was pushed, with the key of its first member.
+   */
+  const readValue = (): boolean => {
+    skipWhitespace();
+    const offset = pos;
+    const char = pos < end ? text[pos] : undefined;
+    const field = match(path);
+
+    if (char === "{" || char === "[") {
+      if (field !== undefined) {
+        matches.push({
+          field,
+          path: path.join("."),
+          offset,
+          value: null,
+          type: char === "{" ? "object" : "array",
+        });
+      }
+      const close = char === "{" ? "}" : "]";
+      pos++;
+      skipWhitespace();
+      if (text[pos] === close && pos < end) {
+        pos++;
+        return false;
+      }
+      const container = { close, index: 0 };
+      containers.push(container);
+      readKey(container);
+      return true;
+    }
+
+    if (char === '"') {
+      const value = readString();
+      if (field !== undefined) {
+        matches.push({
+          field,
+          path: path.join("."),
+          offset,
+          value: value,
+          type: "string",
+        });
+      }
+      return false;
+    }
+
+    for (const [literal, type] of [
+      ["true", "boolean"],
+      ["false", "boolean"],
+      ["null", "null"],
+    ] as const) {
+      if (text.startsWith(literal, pos) && pos + literal.length <= end) {
+        pos += literal.length;
+        if (field !== undefined) {
+          matches.push({
+            field,
+            path: path.join("."),
+            offset,
+            value: null,
+            type: type,
+          });
+        }
+        return false;
+      }
+    }
+
+    while (pos < end && "+-.0123456789eE".includes(text[pos] as string)) {
+      pos++;
+    }
+    if (pos === offset || !JSON_NUMBER_PATTERN.test(text.slice(offset, pos))) {
+      pos = offset;
+      fail("expected JSON value");
+    }
+    if (field !== undefined) {
+      matches.push({
+        field,
+        path: path.join("."),
+        offset,
+        value: null,
+        type: "number",
+      });
+    }
+    return false;
+  };
+
+  /**
+   * After a value, close the objects and arrays it ends and read the key of
+   * the next member. Returns false when the outermost value has ended.
+   */
+  const nextMember = (): boolean => {
+    for (
+      let container = containers[containers.length - 1];
+      container;
+      container = containers[containers.length - 1]
+    ) {
+      path.pop();
+      skipWhitespace();
+      if (text[pos] === container.close && pos < end) {
+        pos++;
+        containers.pop();
+        continue;
+      }
+      expect(",");
+      container.index++;
+      readKey(container);
+      return true;
+    }
+    return false;
+  };
+
+  for (let more = true; more; ) {
+    more = readValue() || nextMember();
+  }
+  skipWhitespace();
+  if (pos < end) {
+    fail("unexpected content after JSON value");
+  }
+  return matches;
+}
+
+/** Create a matcher returning the first field that matches a path. */
+function pathMatcher(fields: string[]): (path: string[]) => string | undefined {
+  const patterns = fields.map(
+    (field) => [field, field === "" ? [] : field.split(".")] as const,
+  );
+  return (path) => {
+    for (const [field, keys] of patterns) {
+      if (
+        keys.length === path.length &&
+        keys.every((key, i) => key === WILDCARD || key === path[i])
+      ) {
+        return field;
+      }
+    }
+    return undefined;
+  };
+}
+
+function lintJSON(
+  text: string,
+  start: number,
+  options: KRNLintOptions,
+  collector: Collector,
+): void {
+  const match = pathMatcher(options.fields);
+  // Values are checked after the scan, so invalid JSON has no other issues
+  const check = (matches: JSONMatch[]) => {
+    for (const m of matches) {
+      collector.check(m.path, m.field, m.offset, m.value, m.type);
+    }
+  };
+
+  if (options.format === "json") {
+    check(scanJSON(text, start, text.length, match));
+    return;
+  }
+
+  // NDJSON - report syntax errors per line and go on with the next one
+  for (let lineStart = start; lineStart < text.length; ) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    if (text.slice(lineStart, lineEnd).trim()) {
+      try {
+        check(scanJSON(text, lineStart, lineEnd, match));
+      } catch (err) {
+        if (!(err instanceof LintSyntaxError)) {
+          throw err;
+        }
+        collector.issue(KRNLintCode.SYNTAX_ERROR, err.message, err.offset, "");
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+}
+
+/**
+ * Check the KRNs in CSV, JSON or NDJSON text and report all issues with
+ * their location, grouped by code. Malformed input is reported as a
+ * SYNTAX_ERROR issue: JSON is then not checked, CSV is checked up to the
+ * error, and NDJSON goes on with the next line.
+ */
+export function lintKRNs(
+  input: string,
+  options: KRNLintOptions,
+): KRNLintReport {
+  const collector = new Collector(options, lineStarts(input));
+  const start = input.startsWith(BOM) ? BOM.length : 0;
+  try {
+    if (options.format === "csv") {
+      lintCSV(input, start, options, collector);
+    } else {
+      lintJSON(input, start, options, collector);
+    }
+  } catch (err) {
+    if (!(err instanceof LintSyntaxError)) {
+      throw err;
+    }
+    collector.issue(KRNLintCode.SYNTAX_ERROR, err.message, err.offset, "");
+  }
+
+  // Group in the order of the codes, keeping the order of the locations
+  const issues: Partial<Record<KRNLintCode, KRNLintIssue[]>> = {};
+  for (const code of Object.values(KRNLintCode)) {
+    const group = collector.issues
+      .filter((issue) => issue.code === code)
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+    if (group.length > 0) {
+      issues[code] = group;
+    }
+  }
+  return { checked: collector.checked, valid: collector.valid, issues };
+}
+
+/**
+ * Format a lint report as human-readable text, one issue per line under
+ * the code. The source name, if given, prefixes the locations.
+ */
+export function formatLintReport(
+  report: KRNLintReport,
+  source?: string,
+): string {
+  const lines: string[] = [];
+  let count = 0;
+  for (const [code, group = []] of Object.entries(report.issues)) {
+    lines.push(`${code} (${group.length})`);
+    for (const issue of group) {
+      const location = `${source ? `${source}:` : ""}${issue.line}:${issue.column}`;
+      const field = issue.field ? ` ${issue.field}:` : "";
+      lines.push(`  ${location}${field} ${issue.message}`);
+    }
+    count += group.length;
+  }
+  lines.push(
+    `${report.checked} KRNs checked, ${report.valid} valid, ${count} ${count === 1 ? "issue" : "issues"}`,
+  );
+  return lines.join("\n");
+}
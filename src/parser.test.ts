@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  createKRNParser,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  KRNMap,
+  KRNTree,
+} from "./index.js";
+
+const test = createKRNParser({ domain: "kopexa.test" });
+
+describe("createKRNParser", () => {
+  it("parses KRNs under its domain", () => {
+    const k = test.parse("//catalog.kopexa.test/frameworks/iso27001@v1");
+    expect(k.domain).toBe("kopexa.test");
+    expect(k.service).toBe("catalog");
+    expect(k.fullDomain()).toBe("catalog.kopexa.test");
+    expect(k.toString()).toBe("//catalog.kopexa.test/frameworks/iso27001@v1");
+    expect(test.domain).toBe("kopexa.test");
+    expect(test.allowedServices).toBeUndefined();
+  });
+
+  it("rejects other domains", () => {
+    expect(() => test.parse("//kopexa.com/frameworks/iso27001")).toThrow(
+      "expected kopexa.test or {service}.kopexa.test, got kopexa.com",
+    );
+    expect(test.tryParse("//kopexa.com/frameworks/iso27001")).toBeNull();
+    expect(test.isValid("//kopexa.test/frameworks/iso27001")).toBe(true);
+    expect(KRN.isValid("//kopexa.test/frameworks/iso27001")).toBe(false);
+  });
+
+  it("builds KRNs under its domain", () => {
+    const k = test
+      .builder()
+      .service("catalog")
+      .resource("frameworks", "iso27001")
+      .version("v1")
+      .build();
+    expect(k.toString()).toBe("//catalog.kopexa.test/frameworks/iso27001@v1");
+    expect(k.domain).toBe("kopexa.test");
+  });
+
+  it("normalizes and reads URNs under its domain", () => {
+    expect(
+      test.normalize(" //Kopexa.TEST/frameworks/iso27001/ ").krn.toString(),
+    ).toBe("//kopexa.test/frameworks/iso27001");
+    expect(() =>
+      test.normalize("https://kopexa.test/frameworks/x", { scheme: false }),
+    ).toThrow(KRNError);
+    expect(
+      test.fromURN("urn:kopexa:catalog:frameworks:iso27001").toString(),
+    ).toBe("//catalog.kopexa.test/frameworks/iso27001");
+  });
+
+  it("restricts services", () => {
+    const parser = createKRNParser({ allowedServices: ["catalog", ""] });
+    expect(parser.domain).toBe("kopexa.com");
+    expect(parser.isValid("//catalog.kopexa.com/frameworks/x")).toBe(true);
+    expect(parser.isValid("//kopexa.com/frameworks/x")).toBe(true);
+    try {
+      parser.parse("//isms.kopexa.com/tenants/acme");
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect((err as KRNError).code).toBe(KRNErrorCode.UNKNOWN_SERVICE);
+      expect((err as KRNError).message).toBe("service not allowed: isms");
+    }
+    expect(() =>
+      parser.builder().service("isms").resource("tenants", "acme").build(),
+    ).toThrow(KRNError);
+
+    const required = createKRNParser({ allowedServices: ["catalog"] });
+    expect(() => required.parse("//kopexa.com/frameworks/x")).toThrow(
+      "service required",
+    );
+  });
+
+  it("keeps the service restriction when changing the service", () => {
+    const parser = createKRNParser({
+      domain: "kopexa.test",
+      allowedServices: ["catalog", "isms"],
+    });
+    const k = parser.parse("//catalog.kopexa.test/frameworks/iso");
+    expect(k.withService("isms").toString()).toBe(
+      "//isms.kopexa.test/frameworks/iso",
+    );
+    try {
+      k.withService("typo");
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect((err as KRNError).code).toBe(KRNErrorCode.UNKNOWN_SERVICE);
+      expect((err as KRNError).message).toBe("service not allowed: typo");
+    }
+    expect(() => k.withoutService()).toThrow("service required");
+  });
+
+  it("parses patterns and templates under its domain", () => {
+    const pattern = test.pattern("//*.kopexa.test/frameworks/*");
+    expect(pattern.matches("//catalog.kopexa.test/frameworks/x")).toBe(true);
+    expect(() => test.pattern("//kopexa.com/frameworks/*")).toThrow(KRNError);
+
+    const template = test.template("//kopexa.test/frameworks/{framework}");
+    expect(template.render({ framework: "x" }).domain).toBe("kopexa.test");
+  });
+
+  it("does not change when the options change", () => {
+    const services = ["catalog"];
+    const parser = createKRNParser({ allowedServices: services });
+    services.push("isms");
+    expect(parser.isValid("//isms.kopexa.com/tenants/acme")).toBe(false);
+    expect(parser.allowedServices).toEqual(["catalog"]);
+  });
+
+  it("rejects invalid options", () => {
+    for (const options of [
+      { domain: "" },
+      { domain: "Kopexa.com" },
+      { domain: "kopexa..com" },
+      { allowedServices: ["Catalog"] },
+    ]) {
+      try {
+        createKRNParser(options);
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect(err).toBeInstanceOf(KRNError);
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_DOMAIN);
+      }
+    }
+  });
+});
+
+describe("KRNs with a domain", () => {
+  const iso = test.parse("//catalog.kopexa.test/frameworks/iso27001@v1");
+
+  it("keep the domain when derived", () => {
+    const control = iso.child("controls", "5.1.1");
+    expect(control.domain).toBe("kopexa.test");
+    expect(control.parent()?.toString()).toBe(
+      "//catalog.kopexa.test/frameworks/iso27001",
+    );
+    expect(iso.withVersion("v2").domain).toBe("kopexa.test");
+    expect(iso.withoutVersion().domain).toBe("kopexa.test");
+    expect(iso.withService("isms").domain).toBe("kopexa.test");
+    expect(iso.withoutService().toString()).toBe(
+      "//kopexa.test/frameworks/iso27001@v1",
+    );
+    expect(control.root().domain).toBe("kopexa.test");
+    expect(control.slice(1).domain).toBe("kopexa.test");
+    expect([...control.ancestors()][0]?.domain).toBe("kopexa.test");
+    expect(control.withResourceId("frameworks", "iso27002").toString()).toBe(
+      "//catalog.kopexa.test/frameworks/iso27002/controls/5.1.1",
+    );
+  });
+
+  it("resolve references in their domain", () => {
+    expect(KRN.resolve(iso, "controls/5.1.1").domain).toBe("kopexa.test");
+    expect(KRN.resolve(iso, "//kopexa.test/frameworks/nist").toString()).toBe(
+      "//kopexa.test/frameworks/nist",
+    );
+    expect(() => KRN.resolve(iso, "//kopexa.com/frameworks/nist")).toThrow(
+      KRNError,
+    );
+    const control = iso.child("controls", "5.1.1");
+    expect(control.relativeTo(iso)).toBe("controls/5.1.1");
+  });
+
+  it("differ from KRNs of other domains", () => {
+    const other = KRN.parse("//catalog.kopexa.com/frameworks/iso27001@v1");
+    expect(iso.equals(other)).toBe(false);
+    expect(
+      iso.equalsString("//catalog.kopexa.test/frameworks/iso27001@v1"),
+    ).toBe(true);
+    expect(iso.equalsString(other.toString())).toBe(false);
+    expect(other.isAncestorOf(iso.child("controls", "5.1.1"))).toBe(false);
+    expect(KRN.commonAncestor(iso, other)).toBeNull();
+    expect(other.relativeTo(iso)).toBe(other.toString());
+  });
+
+  it("are kept apart in collections", () => {
+    const other = KRN.parse("//catalog.kopexa.com/frameworks/iso27001@v1");
+    const map = new KRNMap<number>([
+      [iso, 1],
+      [other, 2],
+    ]);
+    expect(map.size).toBe(2);
+    const anyService = new KRNMap<number>([[iso, 1]], { ignoreService: true });
+    expect(anyService.has(other)).toBe(false);
+    expect(anyService.has(iso.withoutService())).toBe(true);
+
+    const tree = new KRNTree<number>([
+      [iso, 1],
+      [other, 2],
+    ]);
+    expect(tree.size).toBe(2);
+    expect(tree.ancestorsOf(iso.child("controls", "5.1.1"))).toEqual([
+      [iso, 1],
+    ]);
+  });
+});
+
+describe("KRN.parse options", () => {
+  it("accept a domain", () => {
+    expect(
+      KRN.parse("//kopexa.test/frameworks/x", { domain: "kopexa.test" }).domain,
+    ).toBe("kopexa.test");
+    expect(() => KRN.parse("//x.y/a/b", { domain: "X.Y" })).toThrow(
+      "invalid base domain: X.Y",
+    );
+  });
+
+  it("default to kopexa.com", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/x");
+    expect(k.domain).toBe("kopexa.com");
+    expect(
+      KRN.fromObject(
+        { segments: k.segments() },
+        { domain: "kopexa.test" },
+      ).toString(),
+    ).toBe("//kopexa.test/frameworks/x");
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * KRN parsers - parse and build KRNs under another base domain or with a
+ * restricted set of services, e.g. for on-prem installations or tests:
+ *
+ *   const parser = createKRNParser({ domain: "kopexa.test" });
+ *   const k = parser.parse("//catalog.kopexa.test/frameworks/iso27001");
+ *   k.domain; // "kopexa.test"
+ *   parser.builder().resource("frameworks", "iso27001").build();
+ *   // //kopexa.test/frameworks/iso27001
+ *
+ * KRNs remember their domain, so derived KRNs (parent, child, withVersion,
+ * resolve, ...) stay in it. KRN.parse and the other defaults keep using
+ * kopexa.com.
+ */
+
+import {
+  DOMAIN,
+  isValidDomain,
+  isValidService,
+  KRN,
+  KRNBuilder,
+  type KRNCollections,
+  KRNError,
+  KRNErrorCode,
+  type KRNNormalizeOptions,
+  type KRNNormalizeResult,
+  type KRNParseOptions,
+  type KRNString,
+} from "./krn.js";
+import { KRNPattern } from "./pattern.js";
+import type { KRNServiceRegistry } from "./service.js";
+import { KRNTemplate } from "./template.js";
+
+/** Parser and builder bound to parse options */
+export interface KRNParser {
+  /** Base domain of the parser */
+  readonly domain: string;
+  /** Allowed services, or undefined if any service is allowed */
+  readonly allowedServices: readonly string[] | undefined;
+  /** Registry of known services, or undefined if any service is allowed */
+  readonly services: KRNServiceRegistry | undefined;
+  /**
+   * Parse a KRN string like KRN.parse.
+   * @throws {KRNError} if the string is not a valid KRN
+   */
+  parse<S extends string>(input: S): KRN<KRNCollections<S>>;
+  /** Parse a KRN string, returning null if invalid instead of throwing. */
+  tryParse<S extends string>(input: S): KRN<KRNCollections<S>> | null;
+  /** Check if a string is a valid KRN. */
+  isValid(input: string): input is KRNString;
+  /**
+   * Parse user-supplied KRN input like KRN.normalize.
+   * @throws {KRNError} if the input is not a valid KRN after the fixes
+   */
+  normalize(input: string, options?: KRNNormalizeOptions): KRNNormalizeResult;
+  /**
+   * Parse a KRN URN like KRN.fromURN.
+   * @throws {KRNError} if the string is not a valid KRN URN
+   */
+  fromURN(input: string): KRN;
+  /** Create a builder for KRNs. */
+  builder(): KRNBuilder;
+  /**
+   * Parse a KRN pattern like KRNPattern.parse.
+   * @throws {KRNError} if the string is not a valid pattern
+   */
+  pattern(input: string): KRNPattern;
+  /**
+   * Compile a KRN template like KRNTemplate.compile.
+   * @throws {KRNError} if the template is invalid
+   */
+  template<T extends string>(template: T): KRNTemplate<T>;
+}
+
+/**
+ * Create a parser and builder bound to a base domain and allowed services.
+ * @throws {KRNError} if the domain or a service name is invalid
+ */
+export function createKRNParser(options: KRNParseOptions = {}): KRNParser {
+  const domain = options.domain ?? DOMAIN;
+  if (!isValidDomain(domain)) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_DOMAIN,
+      `invalid base domain: ${domain}`,
+    );
+  }
+  let allowedServices: readonly string[] | undefined;
+  if (options.allowedServices) {
+    for (const service of options.allowedServices) {
+      if (service !== "" && !isValidService(service)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_DOMAIN,
+          `invalid service name: ${service}`,
+        );
+      }
+    }
+    allowedServices = Object.freeze([...options.allowedServices]);
+  }
+
+  // Copy the options, so later changes to the given ones have no effect
+  const bound: KRNParseOptions = { domain };
+  if (allowedServices) {
+    bound.allowedServices = allowedServices;
+  }
+  if (options.services) {
+    bound.services = options.services;
+  }
+  if (options.kinds) {
+    bound.kinds = options.kinds;
+  }
+  if (options.collectionRules) {
+    bound.collectionRules = { ...options.collectionRules };
+  }
+
+  return {
+    domain,
+    allowedServices,
+    services: options.services,
+    parse: (input) => KRN.parse(input, bound),
+    tryParse: (input) => KRN.tryParse(input, bound),
+    isValid: (input): input is KRNString => KRN.isValid(input, bound),
+    normalize: (input, normalizeOptions = {}) =>
+      KRN.normalize(input, { ...normalizeOptions, ...bound }),
+    fromURN: (input) => KRN.fromURN(input, bound),
+    builder: () => new KRNBuilder(bound),
+    pattern: (input) => KRNPattern.parse(input, bound),
+    template: (template) => KRNTemplate.compile(template, bound),
+  };
+}
@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import { KRN, KRNError, KRNErrorCode, KRNPattern } from "./index.js";
+
+describe("KRNPattern.parse", () => {
+  describe("valid patterns", () => {
+    it("parses literal pattern", () => {
+      const p = KRNPattern.parse("//kopexa.com/frameworks/iso27001");
+      expect(p.isLiteral()).toBe(true);
+      expect(p.toString()).toBe("//kopexa.com/frameworks/iso27001");
+    });
+
+    it("parses single and multi-token wildcards", () => {
+      const p = KRNPattern.parse("//kopexa.com/tenants/*/workspaces/**");
+      expect(p.isLiteral()).toBe(false);
+      expect(p.toString()).toBe("//kopexa.com/tenants/*/workspaces/**");
+    });
+
+    it("parses service and version wildcards", () => {
+      const p = KRNPattern.parse(
+        "//*.kopexa.com/frameworks/iso27001/controls/*@*",
+      );
+      expect(p.toString()).toBe(
+        "//*.kopexa.com/frameworks/iso27001/controls/*@*",
+      );
+    });
+
+    it("parses pattern with concrete service and version", () => {
+      const p = KRNPattern.parse("//catalog.kopexa.com/frameworks/*@v2");
+      expect(p.toString()).toBe("//catalog.kopexa.com/frameworks/*@v2");
+    });
+  });
+
+  describe("invalid patterns", () => {
+    const cases = [
+      { input: "", code: KRNErrorCode.EMPTY_KRN },
+      { input: "kopexa.com/frameworks/*", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com/frameworks//x", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com/frameworks/iso*", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com/frameworks/***", code: KRNErrorCode.INVALID_KRN },
+      {
+        input: "//example.com/frameworks/*",
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+      {
+        input: "//Catalog.kopexa.com/frameworks/*",
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+      {
+        input: "//kopexa.com/frameworks/*@",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        input: "//kopexa.com/frameworks/*@v*",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        input: "//kopexa.com/Frame works/x",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "//kopexa.com/frameworks/**/a b",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "//kopexa.com/frameworks/iso27001@v 1",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+    ];
+
+    for (const tc of cases) {
+      it(`rejects "${tc.input}" with ${tc.code}`, () => {
+        try {
+          KRNPattern.parse(tc.input);
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(tc.code);
+        }
+      });
+    }
+  });
+});
+
+describe("KRNPattern.tryParse", () => {
+  it("returns pattern for valid input", () => {
+    expect(KRNPattern.tryParse("//kopexa.com/frameworks/*")).not.toBeNull();
+  });
+
+  it("returns null for invalid input", () => {
+    expect(KRNPattern.tryParse("invalid")).toBeNull();
+  });
+});
+
+describe("KRNPattern.isValid", () => {
+  it("validates patterns", () => {
+    expect(KRNPattern.isValid("//kopexa.com/**")).toBe(true);
+    expect(KRNPattern.isValid("//kopexa.com/frame*")).toBe(false);
+  });
+});
+
+describe("KRNPattern matching", () => {
+  describe("single-token wildcard", () => {
+    const p = KRNPattern.parse("//kopexa.com/frameworks/*/controls/*");
+
+    it("matches and captures each token", () => {
+      const m = p.match("//kopexa.com/frameworks/iso27001/controls/5.1.1");
+      expect(m).toEqual({ captures: ["iso27001", "5.1.1"] });
+    });
+
+    it("does not match deeper or shallower KRNs", () => {
+      expect(p.matches("//kopexa.com/frameworks/iso27001")).toBe(false);
+      expect(
+        p.matches(
+          "//kopexa.com/frameworks/iso27001/controls/5.1.1/objectives/a",
+        ),
+      ).toBe(false);
+    });
+
+    it("matches collections as well as resource IDs", () => {
+      const q = KRNPattern.parse("//kopexa.com/*/iso27001");
+      expect(q.match("//kopexa.com/frameworks/iso27001")?.captures).toEqual([
+        "frameworks",
+      ]);
+    });
+
+    it("compares literal tokens exactly", () => {
+      const q = KRNPattern.parse("//kopexa.com/frameworks/iso27001/**");
+      expect(q.matches("//kopexa.com/frameworks/iso27001-2022")).toBe(false);
+    });
+  });
+
+  describe("multi-token wildcard", () => {
+    const p = KRNPattern.parse("//kopexa.com/tenants/*/workspaces/**");
+
+    it("matches any depth below the prefix", () => {
+      expect(
+        p.match("//kopexa.com/tenants/acme-corp/workspaces/main")?.captures,
+      ).toEqual(["acme-corp", "main"]);
+      expect(
+        p.match("//kopexa.com/tenants/acme-corp/workspaces/main/evidences/ev-1")
+          ?.captures,
+      ).toEqual(["acme-corp", "main/evidences/ev-1"]);
+    });
+
+    it("does not match other prefixes", () => {
+      expect(p.matches("//kopexa.com/tenants/acme-corp/users/bob")).toBe(false);
+    });
+
+    it("matches zero tokens", () => {
+      const q = KRNPattern.parse("//kopexa.com/tenants/acme-corp/**");
+      expect(q.match("//kopexa.com/tenants/acme-corp")?.captures).toEqual([""]);
+    });
+
+    it("matches in the middle of the path", () => {
+      const q = KRNPattern.parse("//kopexa.com/**/controls/*");
+      expect(
+        q.match("//kopexa.com/frameworks/iso27001/controls/5.1.1")?.captures,
+      ).toEqual(["frameworks/iso27001", "5.1.1"]);
+      expect(q.matches("//kopexa.com/frameworks/iso27001")).toBe(false);
+    });
+
+    it("handles repeated multi-token wildcards", () => {
+      const q = KRNPattern.parse("//kopexa.com/**/**/**/x/**/y");
+      const k = KRN.parse(`//kopexa.com${"/a/b".repeat(30)}/x/z/y/z`);
+      expect(q.matches(k)).toBe(false);
+    });
+  });
+
+  describe("service", () => {
+    it("matches only the given service", () => {
+      const p = KRNPattern.parse("//catalog.kopexa.com/frameworks/*");
+      expect(p.matches("//catalog.kopexa.com/frameworks/iso27001")).toBe(true);
+      expect(p.matches("//isms.kopexa.com/frameworks/iso27001")).toBe(false);
+      expect(p.matches("//kopexa.com/frameworks/iso27001")).toBe(false);
+    });
+
+    it("matches only KRNs without service for bare domain", () => {
+      const p = KRNPattern.parse("//kopexa.com/frameworks/*");
+      expect(p.matches("//catalog.kopexa.com/frameworks/iso27001")).toBe(false);
+    });
+
+    it("matches any service with wildcard", () => {
+      const p = KRNPattern.parse("//*.kopexa.com/frameworks/*");
+      expect(
+        p.match("//catalog.kopexa.com/frameworks/iso27001")?.captures,
+      ).toEqual(["catalog", "iso27001"]);
+      expect(p.match("//kopexa.com/frameworks/iso27001")?.captures).toEqual([
+        "",
+        "iso27001",
+      ]);
+    });
+  });
+
+  describe("version", () => {
+    it("matches only unversioned KRNs without version", () => {
+      const p = KRNPattern.parse("//kopexa.com/frameworks/*");
+      expect(p.matches("//kopexa.com/frameworks/iso27001")).toBe(true);
+      expect(p.matches("//kopexa.com/frameworks/iso27001@v1")).toBe(false);
+    });
+
+    it("matches exact version", () => {
+      const p = KRNPattern.parse("//kopexa.com/frameworks/*@v1");
+      expect(p.matches("//kopexa.com/frameworks/iso27001@v1")).toBe(true);
+      expect(p.matches("//kopexa.com/frameworks/iso27001@v2")).toBe(false);
+      expect(p.matches("//kopexa.com/frameworks/iso27001")).toBe(false);
+    });
+
+    it("matches any version with wildcard", () => {
+      const p = KRNPattern.parse(
+        "//*.kopexa.com/frameworks/iso27001/controls/*@*",
+      );
+      expect(
+        p.match("//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2")
+          ?.captures,
+      ).toEqual(["catalog", "5.1.1", "v2"]);
+      expect(
+        p.match("//kopexa.com/frameworks/iso27001/controls/5.1.1")?.captures,
+      ).toEqual(["", "5.1.1", ""]);
+    });
+  });
+
+  it("accepts KRN instances", () => {
+    const p = KRNPattern.parse("//kopexa.com/frameworks/*");
+    expect(p.matches(KRN.parse("//kopexa.com/frameworks/iso27001"))).toBe(true);
+  });
+
+  it("never matches invalid KRN strings", () => {
+    const p = KRNPattern.parse("//kopexa.com/**");
+    expect(p.matches("//kopexa.com/frameworks/-bad")).toBe(false);
+    expect(p.match("not a krn")).toBeNull();
+  });
+});
+
+describe("KRNPattern domains", () => {
+  it("only matches KRNs of its domain", () => {
+    const p = KRNPattern.parse("//*.kopexa.com/tenants/acme-corp/**");
+    expect(p.domain).toBe("kopexa.com");
+    const foreign = KRN.parse(
+      "//evil.example/tenants/acme-corp/workspaces/main",
+      {
+        domain: "evil.example",
+      },
+    );
+    expect(p.matches(foreign)).toBe(false);
+    expect(
+      p.matches(
+        KRN.parse("//kopexa.test/tenants/acme-corp", { domain: "kopexa.test" }),
+      ),
+    ).toBe(false);
+  });
+
+  it("parses patterns under another domain", () => {
+    const p = KRNPattern.parse("//*.kopexa.test/frameworks/*", {
+      domain: "kopexa.test",
+    });
+    expect(p.domain).toBe("kopexa.test");
+    expect(p.toString()).toBe("//*.kopexa.test/frameworks/*");
+    expect(p.matches("//catalog.kopexa.test/frameworks/iso27001")).toBe(true);
+    expect(p.matches("//catalog.kopexa.com/frameworks/iso27001")).toBe(false);
+    expect(
+      p.matches(
+        KRN.parse("//kopexa.test/frameworks/x", { domain: "kopexa.test" }),
+      ),
+    ).toBe(true);
+    expect(KRNPattern.isValid("//kopexa.test/frameworks/*")).toBe(false);
+  });
+
+  it("checks literal collections against the collection rules", () => {
+    const options = { collectionRules: { style: "kebab" as const } };
+    expect(KRNPattern.isValid("//kopexa.com/controls_v2/*", options)).toBe(
+      true,
+    );
+    expect(KRNPattern.isValid("//kopexa.com/Foo Bar/*", options)).toBe(false);
+  });
+
+  it("rejects invalid domains", () => {
+    expect(() =>
+      KRNPattern.parse("//kopexa.com/frameworks/*", { domain: "Kopexa..com" }),
+    ).toThrow(KRNError);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * KRN patterns - wildcard matching against KRNs.
+ *
+ * Pattern Format:
+ *   //kopexa.com/{token}[/{token}...][@{version}]
+ *   //{service}.kopexa.com/{token}[/{token}...][@{version}]
+ *   //*.kopexa.com/{token}[/{token}...][@{version}]
+ *
+ * Patterns are bound to a base domain like KRNs, kopexa.com unless the
+ * parse options set another one, and only match KRNs of that domain.
+ *
+ * Path tokens are literal collections / resource IDs or wildcards:
+ *   *   matches exactly one path token (a collection or a resource ID)
+ *   **  matches zero or more path tokens
+ *
+ * Examples:
+ *   //kopexa.com/tenants/acme-corp/**
+ *   //*.kopexa.com/frameworks/iso27001/controls/*@*
+ */
+
+import {
+  baseDomain,
+  isValidCollection,
+  isValidResourceId,
+  isValidVersion,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+  splitDomain,
+} from "./krn.js";
+
+/** Wildcard matching a single service, path token or version */
+const WILDCARD = "*";
+/** Wildcard matching zero or more path tokens */
+const MULTI_WILDCARD = "**";
+
+/** Result of a successful pattern match */
+export interface KRNPatternMatch {
+  /**
+   * Values matched by each wildcard, in the order the wildcards appear in
+   * the pattern. A `**` capture joins the matched tokens with `/`.
+   * An unset service or version matched by `*` is captured as "".
+   */
+  captures: string[];
+}
+
+/**
+ * KRNPattern represents a KRN with wildcards in place of the service,
+ * path tokens or version.
+ *
+ * A pattern without a version only matches unversioned KRNs, while `@*`
+ * matches any version including none. Likewise `*.kopexa.com` matches any
+ * service including none.
+ */
+export class KRNPattern {
+  private readonly _service: string;
+  private readonly _tokens: string[];
+  private readonly _version: string;
+  private readonly _domain: string;
+  /** Options the pattern was parsed with, for parsing string targets */
+  private readonly _options: KRNParseOptions;
+
+  private constructor(
+    service: string,
+    tokens: string[],
+    version: string,
+    domain: string,
+    options: KRNParseOptions,
+  ) {
+    this._service = service;
+    this._tokens = tokens;
+    this._version = version;
+    this._domain = domain;
+    this._options = options;
+  }
+
+  /**
+   * Parse a pattern string and return a KRNPattern instance.
+   * Options set another base domain or collection rules, like for KRN.parse.
+   * @throws {KRNError} if the string is not a valid pattern
+   */
+  static parse(input: string, options: KRNParseOptions = {}): KRNPattern {
+    const base = baseDomain(options);
+    if (!input) {
+      throw new KRNError(KRNErrorCode.EMPTY_KRN, "empty KRN pattern");
+    }
+
+    if (!input.startsWith("//")) {
+      throw new KRNError(KRNErrorCode.INVALID_KRN, "must start with //");
+    }
+
+    let str = input.slice(2);
+
+    // Extract version if present
+    let version = "";
+    const atIndex = str.lastIndexOf("@");
+    if (atIndex !== -1) {
+      version = str.slice(atIndex + 1);
+      str = str.slice(0, atIndex);
+      if (version !== WILDCARD && !isValidVersion(version)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_VERSION,
+          `invalid version format: ${version}`,
+        );
+      }
+    }
+
+    const parts = str.split("/");
+    if (parts.length < 2) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least domain/token",
+      );
+    }
+
+    // Parse domain - "kopexa.com", "{service}.kopexa.com" or "*.kopexa.com"
+    const split = splitDomain(parts[0] ?? "", base, WILDCARD);
+    if (split instanceof KRNError) {
+      throw split;
+    }
+    const { service } = split;
+
+    const tokens = parts.slice(1);
+    for (const token of tokens) {
+      if (!token) {
+        throw new KRNError(KRNErrorCode.INVALID_KRN, "empty path token");
+      }
+      if (
+        token !== WILDCARD &&
+        token !== MULTI_WILDCARD &&
+        token.includes(WILDCARD)
+      ) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `wildcards must span a whole token: ${token}`,
+        );
+      }
+      // Literal tokens that no KRN contains would silently never match
+      if (
+        !token.includes(WILDCARD) &&
+        !isValidCollection(token, options.collectionRules) &&
+        !isValidResourceId(token)
+      ) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `invalid path token: ${token}`,
+        );
+      }
+    }
+
+    return new KRNPattern(service, tokens, version, base, options);
+  }
+
+  /**
+   * Parse a pattern string, returning null if invalid instead of throwing.
+   */
+  static tryParse(s: string, options: KRNParseOptions = {}): KRNPattern | null {
+    try {
+      return KRNPattern.parse(s, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if a string is a valid pattern.
+   */
+  static isValid(s: string, options: KRNParseOptions = {}): boolean {
+    return KRNPattern.tryParse(s, options) !== null;
+  }
+
+  /** Get the base domain of the pattern. */
+  get domain(): string {
+    return this._domain;
+  }
+
+  /**
+   * Get the string representation of the pattern.
+   */
+  toString(): string {
+    let result = "//";
+
+    if (this._service) {
+      result += `${this._service}.`;
+    }
+    result += this._domain;
+    result += `/${this._tokens.join("/")}`;
+
+    if (this._version) {
+      result += `@${this._version}`;
+    }
+
+    return result;
+  }
+
+  /** Check if the pattern contains no wildcards and matches a single KRN. */
+  isLiteral(): boolean {
+    return (
+      this._service !== WILDCARD &&
+      this._version !== WILDCARD &&
+      this._tokens.every((t) => t !== WILDCARD && t !== MULTI_WILDCARD)
+    );
+  }
+
+  /**
+   * Test a KRN against the pattern.
+   * Strings are parsed with the options of the pattern first; invalid KRN
+   * strings never match.
+   */
+  matches(target: KRN | string): boolean {
+    return this.match(target) !== null;
+  }
+
+  /**
+   * Match a KRN against the pattern and return the wildcard captures,
+   * or null if the KRN does not match. KRNs of another base domain never
+   * match.
+   * Strings are parsed with the options of the pattern first; invalid KRN
+   * strings never match.
+   */
+  match(target: KRN | string): KRNPatternMatch | null {
+    const k =
+      typeof target === "string" ? KRN.tryParse(target, this._options) : target;
+    if (!k || k.domain !== this._domain) {
+      return null;
+    }
+
+    const captures: string[] = [];
+
+    if (this._service === WILDCARD) {
+      captures.push(k.service);
+    } else if (this._service !== k.service) {
+      return null;
+    }
+
+    const tokens: string[] = [];
+    for (const seg of k.segments()) {
+      tokens.push(seg.collection, seg.resourceId);
+    }
+
+    const pathCaptures = matchTokens(this._tokens, tokens);
+    if (!pathCaptures) {
+      return null;
+    }
+    captures.push(...pathCaptures);
+
+    if (this._version === WILDCARD) {
+      captures.push(k.version);
+    } else if (this._version !== k.version) {
+      return null;
+    }
+
+    return { captures };
+  }
+}
+
+/**
+ * Match pattern tokens against path tokens, returning the wildcard captures.
+ * `**` is matched lazily; failed (pattern, path) positions are memoized so
+ * repeated `**` wildcards cannot cause exponential backtracking.
+ */
+function matchTokens(pattern: string[], path: string[]): string[] | null {
+  const failed = new Set<number>();
+
+  const step = (pi: number, ti: number): string[] | null => {
+    const key = pi * (path.length + 1) + ti;
+    if (failed.has(key)) {
+      return null;
+    }
+
+    let result: string[] | null = null;
+    const token = pattern[pi];
+
+    if (token === undefined) {
+      result = ti === path.length ? [] : null;
+    } else if (token === MULTI_WILDCARD) {
+      for (let end = ti; end <= path.length && !result; end++) {
+        const rest = step(pi + 1, end);
+        if (rest) {
+          result = [path.slice(ti, end).join("/"), ...rest];
+        }
+      }
+    } else if (ti < path.length) {
+      const value = path[ti] ?? "";
+      if (token === WILDCARD) {
+        const rest = step(pi + 1, ti + 1);
+        result = rest ? [value, ...rest] : null;
+      } else if (token === value) {
+        result = step(pi + 1, ti + 1);
+      }
+    }
+
+    if (!result) {
+      failed.add(key);
+    }
+    return result;
+  };
+
+  return step(0, 0);
+}
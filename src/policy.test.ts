@@ -0,0 +1,327 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluate,
+  isAllowed,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  matchesAction,
+  type Policy,
+} from "./index.js";
+
+const tenantAdmin: Policy = {
+  id: "tenant-admin",
+  statements: [
+    {
+      sid: "manage-tenant",
+      effect: "allow",
+      actions: ["controls:*", "evidences:read"],
+      resources: ["//kopexa.com/tenants/acme-corp"],
+    },
+    {
+      sid: "protect-prod",
+      effect: "deny",
+      actions: ["controls:delete"],
+      resources: ["//kopexa.com/tenants/*/workspaces/prod"],
+    },
+  ],
+};
+
+const catalogReader: Policy = {
+  statements: [
+    {
+      effect: "allow",
+      actions: ["*:read"],
+      resources: ["//catalog.kopexa.com/frameworks/*/**"],
+    },
+  ],
+};
+
+describe("matchesAction", () => {
+  it("matches exact actions", () => {
+    expect(matchesAction("controls:read", "controls:read")).toBe(true);
+    expect(matchesAction("controls:read", "controls:write")).toBe(false);
+  });
+
+  it("matches wildcards", () => {
+    expect(matchesAction("*", "anything")).toBe(true);
+    expect(matchesAction("controls:*", "controls:delete")).toBe(true);
+    expect(matchesAction("controls:*", "evidences:delete")).toBe(false);
+    expect(matchesAction("*:read", "controls:read")).toBe(true);
+    expect(matchesAction("*:read", "controls:readAll")).toBe(false);
+    expect(matchesAction("c*:*e", "controls:delete")).toBe(true);
+    expect(matchesAction("a*b*c", "abc")).toBe(true);
+    expect(matchesAction("ab*ba", "aba")).toBe(false);
+    expect(matchesAction("a*bc*bc", "abcbc")).toBe(true);
+    expect(matchesAction("a*bc*bc", "abc")).toBe(false);
+  });
+});
+
+describe("evaluate", () => {
+  it("allows matching statements", () => {
+    const d = evaluate(
+      [tenantAdmin],
+      "controls:read",
+      "//kopexa.com/tenants/acme-corp",
+    );
+    expect(d.allowed).toBe(true);
+    expect(d.effect).toBe("allow");
+    expect(d.explicit).toBe(true);
+    expect(d.policy).toBe(tenantAdmin);
+    expect(d.statement?.sid).toBe("manage-tenant");
+    expect(d.reason).toBe(
+      "allowed by statement manage-tenant of policy tenant-admin on //kopexa.com/tenants/acme-corp",
+    );
+  });
+
+  it("inherits grants to descendants and versions", () => {
+    const d = evaluate(
+      [tenantAdmin],
+      "evidences:read",
+      "//kopexa.com/tenants/acme-corp/workspaces/main/evidences/ev-1@v2",
+    );
+    expect(d.allowed).toBe(true);
+    expect(d.trace[0]?.matchedKRN?.toString()).toBe(
+      "//kopexa.com/tenants/acme-corp",
+    );
+  });
+
+  it("inherits grants on versioned resources to versioned descendants", () => {
+    const policy: Policy = {
+      statements: [
+        {
+          effect: "allow",
+          actions: ["*"],
+          resources: ["//kopexa.com/frameworks/iso27001@v1"],
+        },
+      ],
+    };
+    const d = evaluate(
+      [policy],
+      "read",
+      "//kopexa.com/frameworks/iso27001/controls/5.1.1@v1",
+    );
+    expect(d.allowed).toBe(true);
+    expect(d.trace[0]?.matchedKRN?.toString()).toBe(
+      "//kopexa.com/frameworks/iso27001@v1",
+    );
+    expect(
+      isAllowed(
+        [policy],
+        "read",
+        "//kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+      ),
+    ).toBe(false);
+    expect(
+      isAllowed(
+        [policy],
+        "read",
+        "//kopexa.com/frameworks/iso27001/controls/5.1.1",
+      ),
+    ).toBe(false);
+  });
+
+  it("inherits denies on versioned resources to versioned descendants", () => {
+    const policy: Policy = {
+      statements: [
+        {
+          effect: "allow",
+          actions: ["*"],
+          resources: ["//kopexa.com/frameworks/iso27001"],
+        },
+        {
+          effect: "deny",
+          actions: ["write"],
+          resources: ["//kopexa.com/frameworks/iso27001@v1"],
+        },
+      ],
+    };
+    const target = "//kopexa.com/frameworks/iso27001/controls/5.1.1@v1";
+    expect(isAllowed([policy], "write", target)).toBe(false);
+    expect(isAllowed([policy], "read", target)).toBe(true);
+    expect(
+      isAllowed(
+        [policy],
+        "write",
+        "//kopexa.com/frameworks/iso27001/controls/5.1.1@v2",
+      ),
+    ).toBe(true);
+  });
+
+  it("does not inherit when disabled", () => {
+    const target = "//kopexa.com/tenants/acme-corp/workspaces/main";
+    expect(isAllowed([tenantAdmin], "controls:read", target)).toBe(true);
+    expect(
+      isAllowed([tenantAdmin], "controls:read", target, { inherit: false }),
+    ).toBe(false);
+  });
+
+  it("gives explicit deny precedence over allow", () => {
+    const d = evaluate(
+      [tenantAdmin],
+      "controls:delete",
+      "//kopexa.com/tenants/acme-corp/workspaces/prod/controls/c-1",
+    );
+    expect(d.allowed).toBe(false);
+    expect(d.effect).toBe("deny");
+    expect(d.explicit).toBe(true);
+    expect(d.statement?.sid).toBe("protect-prod");
+    expect(d.reason).toBe(
+      "denied by statement protect-prod of policy tenant-admin on //kopexa.com/tenants/*/workspaces/prod",
+    );
+  });
+
+  it("applies deny across policies regardless of order", () => {
+    const allowAll: Policy = {
+      statements: [
+        { effect: "allow", actions: ["*"], resources: ["//kopexa.com/**"] },
+      ],
+    };
+    const target = "//kopexa.com/tenants/acme-corp/workspaces/prod";
+    expect(isAllowed([allowAll, tenantAdmin], "controls:delete", target)).toBe(
+      false,
+    );
+    expect(isAllowed([tenantAdmin, allowAll], "controls:delete", target)).toBe(
+      false,
+    );
+    expect(isAllowed([tenantAdmin, allowAll], "controls:update", target)).toBe(
+      true,
+    );
+  });
+
+  it("implicitly denies without matching statement", () => {
+    const d = evaluate(
+      [tenantAdmin, catalogReader],
+      "controls:read",
+      KRN.parse("//kopexa.com/tenants/other-corp"),
+    );
+    expect(d.allowed).toBe(false);
+    expect(d.effect).toBe("deny");
+    expect(d.explicit).toBe(false);
+    expect(d.policy).toBeNull();
+    expect(d.statement).toBeNull();
+    expect(d.reason).toBe(
+      "no statement allows controls:read on //kopexa.com/tenants/other-corp",
+    );
+  });
+
+  it("implicitly denies without policies", () => {
+    expect(isAllowed([], "controls:read", "//kopexa.com/tenants/acme")).toBe(
+      false,
+    );
+  });
+
+  it("respects service and patterns", () => {
+    const target = "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1";
+    expect(isAllowed([catalogReader], "controls:read", target)).toBe(true);
+    expect(isAllowed([catalogReader], "controls:write", target)).toBe(false);
+    expect(
+      isAllowed(
+        [catalogReader],
+        "controls:read",
+        "//kopexa.com/frameworks/iso27001/controls/5.1.1",
+      ),
+    ).toBe(false);
+  });
+
+  it("records a trace entry per statement", () => {
+    const d = evaluate(
+      [tenantAdmin, catalogReader],
+      "controls:delete",
+      "//kopexa.com/tenants/acme-corp/workspaces/prod",
+    );
+    expect(d.trace).toHaveLength(3);
+    expect(
+      d.trace.map((e) => ({
+        index: e.statementIndex,
+        action: e.actionMatched,
+        resource: e.resourceMatched,
+      })),
+    ).toEqual([
+      { index: 0, action: true, resource: "//kopexa.com/tenants/acme-corp" },
+      {
+        index: 1,
+        action: true,
+        resource: "//kopexa.com/tenants/*/workspaces/prod",
+      },
+      { index: 0, action: false, resource: null },
+    ]);
+  });
+
+  it("describes unnamed statements by index", () => {
+    const d = evaluate(
+      [catalogReader],
+      "controls:read",
+      "//catalog.kopexa.com/frameworks/iso27001",
+    );
+    expect(d.reason).toBe(
+      "allowed by statement #0 on //catalog.kopexa.com/frameworks/*/**",
+    );
+  });
+
+  it("throws on invalid resource patterns", () => {
+    const broken: Policy = {
+      statements: [
+        { effect: "allow", actions: ["*"], resources: ["tenants/*"] },
+      ],
+    };
+    try {
+      evaluate([broken], "controls:read", "//kopexa.com/tenants/acme");
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(KRNError);
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_KRN);
+    }
+  });
+
+  it("does not apply statements to KRNs of other domains", () => {
+    const admin: Policy = {
+      statements: [
+        {
+          effect: "allow",
+          actions: ["*"],
+          resources: ["//kopexa.com/tenants/acme-corp"],
+        },
+      ],
+    };
+    const foreign = KRN.parse(
+      "//evil.example/tenants/acme-corp/workspaces/main",
+      { domain: "evil.example" },
+    );
+    const d = evaluate([admin], "x", foreign);
+    expect(d.allowed).toBe(false);
+    expect(d.explicit).toBe(false);
+  });
+
+  it("parses patterns and targets with the parse options", () => {
+    const admin: Policy = {
+      statements: [
+        {
+          effect: "allow",
+          actions: ["*"],
+          resources: ["//kopexa.test/tenants/acme-corp"],
+        },
+      ],
+    };
+    const parseOptions = { domain: "kopexa.test" };
+    expect(
+      isAllowed(
+        [admin],
+        "x",
+        "//kopexa.test/tenants/acme-corp/workspaces/main",
+        {
+          parseOptions,
+        },
+      ),
+    ).toBe(true);
+    expect(() =>
+      isAllowed([admin], "x", "//kopexa.test/tenants/acme-corp"),
+    ).toThrow(KRNError);
+  });
+
+  it("throws on invalid targets", () => {
+    expect(() => evaluate([tenantAdmin], "controls:read", "invalid")).toThrow(
+      KRNError,
+    );
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * IAM-style policy evaluation over KRNs.
+ *
+ * A policy is a list of statements, each allowing or denying a set of
+ * actions on a set of resources given as KRN patterns:
+ *
+ *   {
+ *     statements: [
+ *       { effect: "allow", actions: ["controls:*"], resources: ["//kopexa.com/tenants/acme-corp"] },
+ *       { effect: "deny", actions: ["controls:delete"], resources: ["//kopexa.com/tenants/acme-corp/workspaces/prod"] },
+ *     ],
+ *   }
+ *
+ * Evaluation rules:
+ *   1. An explicit deny always wins over an allow.
+ *   2. Otherwise an explicit allow grants access.
+ *   3. Without a matching statement access is implicitly denied.
+ *
+ * A statement on a resource also applies to its descendants and to all
+ * versions of it, e.g. a grant on a tenant covers its workspaces.
+ * Statements only apply to KRNs of the base domain of their patterns.
+ */
+
+import { KRN, KRNError, KRNErrorCode, type KRNParseOptions } from "./krn.js";
+import { KRNPattern } from "./pattern.js";
+
+/** Effect of a policy statement */
+export type PolicyEffect = "allow" | "deny";
+
+/** A single rule of a policy */
+export interface PolicyStatement {
+  /** Optional statement identifier, reported in decisions */
+  sid?: string;
+  effect: PolicyEffect;
+  /** Actions the statement applies to; `*` matches any characters */
+  actions: string[];
+  /** KRN patterns of the resources the statement applies to */
+  resources: string[];
+}
+
+/** A set of statements attached to a principal */
+export interface Policy {
+  /** Optional policy identifier, reported in decisions */
+  id?: string;
+  statements: PolicyStatement[];
+}
+
+/** How a single statement was evaluated */
+export interface PolicyTraceEntry {
+  policy: Policy;
+  statement: PolicyStatement;
+  /** Index of the statement within its policy */
+  statementIndex: number;
+  /** Whether one of the statement's actions matched */
+  actionMatched: boolean;
+  /** The resource pattern that matched, or null if none did */
+  resourceMatched: string | null;
+  /** The KRN the pattern matched - the target itself or an ancestor */
+  matchedKRN: KRN | null;
+}
+
+/** Result of a policy evaluation */
+export interface PolicyDecision {
+  /** Whether the action is allowed */
+  allowed: boolean;
+  effect: PolicyEffect;
+  /** False when no statement matched and access is implicitly denied */
+  explicit: boolean;
+  /** The policy containing the deciding statement, or null if implicit */
+  policy: Policy | null;
+  /** The statement that decided, or null if implicit */
+  statement: PolicyStatement | null;
+  /** Human-readable explanation of the decision */
+  reason: string;
+  /** Evaluation of every statement, in policy order */
+  trace: PolicyTraceEntry[];
+}
+
+/** Options for policy evaluation */
+export interface EvaluateOptions {
+  /**
+   * Apply statements on a resource to its descendants and versions.
+   * Defaults to true.
+   */
+  inherit?: boolean;
+  /**
+   * Options for parsing the resource patterns and a string target, e.g.
+   * another base domain, like for KRN.parse
+   */
+  parseOptions?: KRNParseOptions;
+}
+
+/**
+ * Check if an action matches an action pattern.
+ * `*` in the pattern matches any (possibly empty) run of characters.
+ */
+export function matchesAction(pattern: string, action: string): boolean {
+  const parts = pattern.split("*");
+  if (parts.length === 1) {
+    return pattern === action;
+  }
+
+  const first = parts[0] ?? "";
+  const last = parts[parts.length - 1] ?? "";
+  if (
+    action.length < first.length + last.length ||
+    !action.startsWith(first) ||
+    !action.endsWith(last)
+  ) {
+    return false;
+  }
+
+  // Match the inner parts left to right (using indices to avoid ReDoS)
+  let pos = first.length;
+  const end = action.length - last.length;
+  for (const part of parts.slice(1, -1)) {
+    const idx = action.indexOf(part, pos);
+    if (idx === -1 || idx + part.length > end) {
+      return false;
+    }
+    pos = idx + part.length;
+  }
+  return true;
+}
+
+/**
+ * List the KRNs a statement may match to apply to the target:
+ * the target itself and, for versioned targets, its ancestors at the same
+ * version, then its unversioned form and ancestors.
+ */
+function candidates(target: KRN, inherit: boolean): KRN[] {
+  const result = [target];
+  if (!inherit) {
+    return result;
+  }
+
+  if (target.hasVersion()) {
+    result.push(...target.ancestors({ version: "keep" }));
+    result.push(target.withoutVersion());
+  }
+  result.push(...target.ancestors());
+  return result;
+}
+
+/** Describe the deciding statement of a trace entry. */
+function describe(entry: PolicyTraceEntry): string {
+  let label = entry.statement.sid
+    ? `statement ${entry.statement.sid}`
+    : `statement #${entry.statementIndex}`;
+  if (entry.policy.id) {
+    label += ` of policy ${entry.policy.id}`;
+  }
+  return `${label} on ${entry.resourceMatched}`;
+}
+
+/**
+ * Evaluate the policies of a principal for an action on a resource.
+ * @throws {KRNError} if the target or a resource pattern is invalid
+ */
+export function evaluate(
+  policies: Policy[],
+  action: string,
+  target: KRN | string,
+  options: EvaluateOptions = {},
+): PolicyDecision {
+  const parseOptions = options.parseOptions ?? {};
+  const k =
+    typeof target === "string" ? KRN.parse(target, parseOptions) : target;
+  const chain = candidates(k, options.inherit ?? true);
+
+  const trace: PolicyTraceEntry[] = [];
+  let allow: PolicyTraceEntry | null = null;
+  let deny: PolicyTraceEntry | null = null;
+
+  for (const policy of policies) {
+    for (const [statementIndex, statement] of policy.statements.entries()) {
+      const entry: PolicyTraceEntry = {
+        policy,
+        statement,
+        statementIndex,
+        actionMatched: statement.actions.some((a) => matchesAction(a, action)),
+        resourceMatched: null,
+        matchedKRN: null,
+      };
+
+      for (const resource of statement.resources) {
+        const pattern = KRNPattern.tryParse(resource, parseOptions);
+        if (!pattern) {
+          throw new KRNError(
+            KRNErrorCode.INVALID_KRN,
+            `invalid resource pattern in policy: ${resource}`,
+          );
+        }
+        if (entry.resourceMatched) {
+          continue;
+        }
+        const matched = chain.find((c) => pattern.matches(c));
+        if (matched) {
+          entry.resourceMatched = resource;
+          entry.matchedKRN = matched;
+        }
+      }
+
+      if (entry.actionMatched && entry.resourceMatched) {
+        if (statement.effect === "deny") {
+          deny ??= entry;
+        } else {
+          allow ??= entry;
+        }
+      }
+      trace.push(entry);
+    }
+  }
+
+  const decided = deny ?? allow;
+  let reason = `no statement allows ${action} on ${k}`;
+  if (deny) {
+    reason = `denied by ${describe(deny)}`;
+  } else if (allow) {
+    reason = `allowed by ${describe(allow)}`;
+  }
+
+  return {
+    allowed: !deny && allow !== null,
+    effect: deny || !allow ? "deny" : "allow",
+    explicit: decided !== null,
+    policy: decided?.policy ?? null,
+    statement: decided?.statement ?? null,
+    reason,
+    trace,
+  };
+}
+
+/**
+ * Check if the policies of a principal allow an action on a resource.
+ * @throws {KRNError} if the target or a resource pattern is invalid
+ */
+export function isAllowed(
+  policies: Policy[],
+  action: string,
+  target: KRN | string,
+  options: EvaluateOptions = {},
+): boolean {
+  return evaluate(policies, action, target, options).allowed;
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  KRNSchemaRegistry,
+  krn,
+} from "./index.js";
+
+function catalogRegistry(): KRNSchemaRegistry {
+  return new KRNSchemaRegistry()
+    .register("catalog", {
+      roots: ["frameworks"],
+      children: { frameworks: ["controls"], controls: ["objectives"] },
+    })
+    .register("", {
+      roots: ["tenants"],
+      children: { tenants: ["workspaces"] },
+    });
+}
+
+function expectHierarchyError(fn: () => unknown, message?: string) {
+  try {
+    fn();
+    expect.fail("expected KRNError");
+  } catch (err) {
+    expect(err).toBeInstanceOf(KRNError);
+    expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_HIERARCHY);
+    if (message) {
+      expect((err as KRNError).message).toBe(message);
+    }
+  }
+}
+
+describe("KRNSchemaRegistry", () => {
+  describe("register", () => {
+    it("tracks registered services", () => {
+      const registry = catalogRegistry();
+      expect(registry.has("catalog")).toBe(true);
+      expect(registry.has("")).toBe(true);
+      expect(registry.has("isms")).toBe(false);
+      expect(registry.services()).toEqual(["catalog", ""]);
+    });
+
+    it("replaces an existing schema", () => {
+      const registry = catalogRegistry().register("catalog", {
+        roots: ["controls"],
+      });
+      expect(
+        registry.isValid(KRN.parse("//catalog.kopexa.com/controls/x")),
+      ).toBe(true);
+      expect(
+        registry.isValid(KRN.parse("//catalog.kopexa.com/frameworks/x")),
+      ).toBe(false);
+    });
+  });
+
+  describe("validate", () => {
+    const registry = catalogRegistry();
+
+    it("accepts KRNs following the hierarchy", () => {
+      for (const s of [
+        "//catalog.kopexa.com/frameworks/iso27001",
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1/objectives/a@v1",
+        "//kopexa.com/tenants/acme-corp/workspaces/main",
+      ]) {
+        expect(() => registry.validate(KRN.parse(s))).not.toThrow();
+      }
+    });
+
+    it("rejects unknown root collections", () => {
+      expectHierarchyError(
+        () => registry.validate(KRN.parse("//catalog.kopexa.com/controls/x")),
+        "controls is not a root collection of catalog",
+      );
+    });
+
+    it("rejects collections in the wrong order", () => {
+      expectHierarchyError(
+        () => registry.validate(KRN.parse("//kopexa.com/controls/x/tenants/y")),
+        "controls is not a root collection of (no service)",
+      );
+      expectHierarchyError(
+        () =>
+          registry.validate(
+            KRN.parse("//catalog.kopexa.com/frameworks/x/objectives/y"),
+          ),
+        "objectives is not allowed below frameworks in catalog",
+      );
+    });
+
+    it("rejects collections without children", () => {
+      expectHierarchyError(() =>
+        registry.validate(
+          KRN.parse(
+            "//kopexa.com/tenants/acme-corp/workspaces/main/evidences/ev-1",
+          ),
+        ),
+      );
+    });
+
+    it("rejects services without schema by default", () => {
+      expectHierarchyError(
+        () => registry.validate(KRN.parse("//isms.kopexa.com/risks/r-1")),
+        "no schema registered for service: isms",
+      );
+    });
+
+    it("accepts services without schema when allowed", () => {
+      const lenient = new KRNSchemaRegistry({ allowUnregistered: true });
+      expect(lenient.isValid(KRN.parse("//isms.kopexa.com/risks/r-1"))).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("parse", () => {
+    const registry = catalogRegistry();
+
+    it("parses valid KRNs", () => {
+      const k = registry.parse(
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+      );
+      expect(k.basename()).toBe("5.1.1");
+    });
+
+    it("keeps syntax errors from KRN.parse", () => {
+      try {
+        registry.parse("//catalog.kopexa.com/frameworks/-bad");
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_RESOURCE_ID);
+      }
+    });
+
+    it("throws on hierarchy violations", () => {
+      expectHierarchyError(() =>
+        registry.parse("//catalog.kopexa.com/controls/5.1.1"),
+      );
+    });
+
+    it("tryParse returns null on failure", () => {
+      expect(
+        registry.tryParse("//catalog.kopexa.com/controls/5.1.1"),
+      ).toBeNull();
+      expect(
+        registry.tryParse("//catalog.kopexa.com/frameworks/iso27001"),
+      ).not.toBeNull();
+    });
+  });
+
+  describe("build", () => {
+    const registry = catalogRegistry();
+
+    it("builds valid KRNs", () => {
+      const k = registry.build(
+        krn()
+          .service("catalog")
+          .resource("frameworks", "iso27001")
+          .resource("controls", "5.1.1"),
+      );
+      expect(k.toString()).toBe(
+        "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+      );
+    });
+
+    it("throws on hierarchy violations", () => {
+      expectHierarchyError(() =>
+        registry.build(krn().service("catalog").resource("objectives", "a")),
+      );
+    });
+
+    it("tryBuild returns null on failure", () => {
+      expect(
+        registry.tryBuild(krn().resource("workspaces", "main")),
+      ).toBeNull();
+      expect(
+        registry.tryBuild(krn().resource("tenants", "acme")),
+      ).not.toBeNull();
+    });
+  });
+
+  describe("parse options", () => {
+    it("parses KRNs under another domain", () => {
+      const registry = catalogRegistry();
+      const options = { domain: "kopexa.test" };
+      const k = registry.parse("//catalog.kopexa.test/frameworks/x", options);
+      expect(k.domain).toBe("kopexa.test");
+      expect(
+        registry.tryParse("//catalog.kopexa.test/frameworks/x"),
+      ).toBeNull();
+      expect(
+        registry.tryParse("//catalog.kopexa.test/controls/x", options),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Resource hierarchy schemas - per-service rules for which collections
+ * may appear at the root of a KRN path and which collections may be
+ * nested below each other.
+ *
+ * Example:
+ *   const schemas = new KRNSchemaRegistry().register("catalog", {
+ *     roots: ["frameworks"],
+ *     children: { frameworks: ["controls"], controls: ["objectives"] },
+ *   });
+ *
+ *   schemas.parse("//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1");
+ *   schemas.parse("//catalog.kopexa.com/controls/5.1.1"); // INVALID_HIERARCHY
+ */
+
+import {
+  KRN,
+  type KRNBuilder,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+} from "./krn.js";
+
+/** Allowed collection hierarchy for a single service */
+export interface ServiceSchema {
+  /** Collections allowed as the first segment of a KRN path */
+  roots: string[];
+  /** Collections allowed directly below each collection */
+  children?: Record<string, string[]>;
+}
+
+/** Options for a KRNSchemaRegistry */
+export interface KRNSchemaRegistryOptions {
+  /**
+   * Accept KRNs of services without a registered schema instead of
+   * rejecting them. Defaults to false.
+   */
+  allowUnregistered?: boolean;
+}
+
+interface CompiledSchema {
+  roots: Set<string>;
+  children: Map<string, Set<string>>;
+}
+
+/**
+ * KRNSchemaRegistry holds the resource hierarchy of each service and
+ * validates KRNs against it.
+ *
+ * Schemas are keyed by service name; use "" for KRNs without a service.
+ */
+export class KRNSchemaRegistry {
+  private readonly _schemas = new Map<string, CompiledSchema>();
+  private readonly _allowUnregistered: boolean;
+
+  constructor(options: KRNSchemaRegistryOptions = {}) {
+    this._allowUnregistered = options.allowUnregistered ?? false;
+  }
+
+  /**
+   * Register the schema for a service, replacing any previous schema.
+   */
+  register(service: string, schema: ServiceSchema): this {
+    const children = new Map<string, Set<string>>();
+    for (const [collection, allowed] of Object.entries(schema.children ?? {})) {
+      children.set(collection, new Set(allowed));
+    }
+    this._schemas.set(service, { roots: new Set(schema.roots), children });
+    return this;
+  }
+
+  /** Check if a schema is registered for the service. */
+  has(service: string): boolean {
+    return this._schemas.has(service);
+  }
+
+  /** Get the registered services. */
+  services(): string[] {
+    return [...this._schemas.keys()];
+  }
+
+  /**
+   * Validate a KRN against the schema of its service.
+   * @throws {KRNError} with INVALID_HIERARCHY if the KRN violates the schema
+   */
+  validate(k: KRN): void {
+    const schema = this._schemas.get(k.service);
+    const label = k.service || "(no service)";
+
+    if (!schema) {
+      if (this._allowUnregistered) {
+        return;
+      }
+      throw new KRNError(
+        KRNErrorCode.INVALID_HIERARCHY,
+        `no schema registered for service: ${label}`,
+      );
+    }
+
+    let parent = "";
+    for (const seg of k.segments()) {
+      if (!parent) {
+        if (!schema.roots.has(seg.collection)) {
+          throw new KRNError(
+            KRNErrorCode.INVALID_HIERARCHY,
+            `${seg.collection} is not a root collection of ${label}`,
+          );
+        }
+      } else if (!schema.children.get(parent)?.has(seg.collection)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_HIERARCHY,
+          `${seg.collection} is not allowed below ${parent} in ${label}`,
+        );
+      }
+      parent = seg.collection;
+    }
+  }
+
+  /** Check if a KRN conforms to the schema of its service. */
+  isValid(k: KRN): boolean {
+    try {
+      this.validate(k);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a KRN string and validate it against the registered schemas.
+   * Options set another base domain or restrict the services, like for
+   * KRN.parse.
+   * @throws {KRNError} if the string is not a valid KRN or violates the schema
+   */
+  parse(input: string, options: KRNParseOptions = {}): KRN {
+    const k = KRN.parse(input, options);
+    this.validate(k);
+    return k;
+  }
+
+  /**
+   * Parse and validate a KRN string, returning null if invalid instead of throwing.
+   */
+  tryParse(s: string, options: KRNParseOptions = {}): KRN | null {
+    try {
+      return this.parse(s, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build a KRN from a builder and validate it against the registered schemas.
+   * @throws {KRNError} if building fails or the KRN violates the schema
+   */
+  build(builder: KRNBuilder): KRN {
+    const k = builder.build();
+    this.validate(k);
+    return k;
+  }
+
+  /**
+   * Build and validate a KRN, returning null if invalid instead of throwing.
+   */
+  tryBuild(builder: KRNBuilder): KRN | null {
+    try {
+      return this.build(builder);
+    } catch {
+      return null;
+    }
+  }
+}
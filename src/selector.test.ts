@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import {
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  resolveVersion,
+  tryResolveVersion,
+  VersionSelector,
+} from "./index.js";
+
+const versions = [
+  "v0.9.0",
+  "v1.0.0",
+  "v1.2.0",
+  "v1.2.5",
+  "v1.4.1",
+  "v2.0.0-rc.1",
+  "v2.0.0",
+  "draft",
+];
+
+const dates = ["2013-10-01", "2022-01-15", "2022-10-25", "2023"];
+
+function expectCode(fn: () => unknown, code: string) {
+  try {
+    fn();
+    expect.fail("expected KRNError");
+  } catch (err) {
+    expect(err).toBeInstanceOf(KRNError);
+    expect((err as KRNError).code).toBe(code);
+  }
+}
+
+describe("VersionSelector", () => {
+  describe("parse", () => {
+    it("parses valid selectors", () => {
+      for (const s of [
+        "latest",
+        "v1.2.3",
+        "draft",
+        "^1.2",
+        "^v1",
+        "~1.2.0",
+        ">=2022-01-01",
+        ">v1,<=v2.1",
+        "=2022",
+      ]) {
+        expect(VersionSelector.parse(s).toString()).toBe(s);
+      }
+    });
+
+    it("distinguishes exact versions from ranges", () => {
+      expect(VersionSelector.parse("v1.2.3").isExact()).toBe(true);
+      expect(VersionSelector.parse("latest").isExact()).toBe(false);
+      expect(VersionSelector.parse("^1.2").isExact()).toBe(false);
+    });
+
+    it("rejects invalid selectors", () => {
+      for (const s of [
+        "",
+        "^",
+        "^2022-01-01",
+        "^v1.0.0-rc.1",
+        ">=draft",
+        ">=final",
+        "=>1",
+        ">=1,",
+        "!1",
+        "-v1",
+      ]) {
+        expectCode(
+          () => VersionSelector.parse(s),
+          KRNErrorCode.INVALID_VERSION,
+        );
+      }
+    });
+
+    it("tryParse and isValid", () => {
+      expect(VersionSelector.tryParse("^1.2")).not.toBeNull();
+      expect(VersionSelector.tryParse("^")).toBeNull();
+      expect(VersionSelector.isValid(">=2022")).toBe(true);
+      expect(VersionSelector.isValid(">=")).toBe(false);
+    });
+  });
+
+  describe("select", () => {
+    const cases = [
+      { selector: "latest", versions, expected: "v2.0.0" },
+      { selector: "latest", versions: dates, expected: "2023" },
+      { selector: "v1.2.0", versions, expected: "v1.2.0" },
+      { selector: "draft", versions, expected: "draft" },
+      { selector: "v2.0.0-rc.1", versions, expected: "v2.0.0-rc.1" },
+      { selector: "^1.2", versions, expected: "v1.4.1" },
+      { selector: "^1", versions, expected: "v1.4.1" },
+      { selector: "^0.9", versions, expected: "v0.9.0" },
+      { selector: "~1.2", versions, expected: "v1.2.5" },
+      { selector: "~1", versions, expected: "v1.4.1" },
+      { selector: ">=1.2,<1.4", versions, expected: "v1.2.5" },
+      { selector: "<v1", versions, expected: "v0.9.0" },
+      { selector: "=1.2", versions, expected: "v1.2.0" },
+      { selector: ">1.4.1", versions, expected: "v2.0.0" },
+      { selector: ">=2022-01-01", versions: dates, expected: "2023" },
+      { selector: "<2022-10-25", versions: dates, expected: "2022-01-15" },
+      { selector: "<=2022", versions: dates, expected: "2013-10-01" },
+      { selector: ">=2022-01-01", versions, expected: null },
+      { selector: "^3", versions, expected: null },
+      { selector: "v9", versions, expected: null },
+      { selector: "latest", versions: ["draft"], expected: null },
+    ];
+
+    for (const tc of cases) {
+      it(`selects ${tc.expected} for ${tc.selector}`, () => {
+        expect(VersionSelector.parse(tc.selector).select(tc.versions)).toBe(
+          tc.expected,
+        );
+      });
+    }
+
+    it("excludes pre-releases from ranges", () => {
+      const s = VersionSelector.parse(">=2");
+      expect(s.matches("v2.0.0-rc.1")).toBe(false);
+      expect(s.matches("v2.0.0")).toBe(true);
+    });
+
+    it("throws on invalid versions", () => {
+      expectCode(
+        () => VersionSelector.parse("latest").select(["v1", "-v2"]),
+        KRNErrorCode.INVALID_VERSION,
+      );
+    });
+  });
+});
+
+describe("resolveVersion", () => {
+  it("resolves selectors in KRN strings", () => {
+    const k = resolveVersion(
+      "//catalog.kopexa.com/frameworks/iso27001@^1.2",
+      versions,
+    );
+    expect(k.toString()).toBe(
+      "//catalog.kopexa.com/frameworks/iso27001@v1.4.1",
+    );
+  });
+
+  it("resolves latest in KRN instances", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001@latest");
+    expect(resolveVersion(k, dates).version).toBe("2023");
+  });
+
+  it("returns unversioned KRNs as they are", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+    expect(resolveVersion(k, versions)).toBe(k);
+    expect(
+      resolveVersion("//kopexa.com/frameworks/iso27001", versions).equals(k),
+    ).toBe(true);
+  });
+
+  it("keeps concrete KRNs strict", () => {
+    expectCode(
+      () => KRN.parse("//kopexa.com/frameworks/iso27001@^1.2"),
+      KRNErrorCode.INVALID_VERSION,
+    );
+  });
+
+  it("throws if no version matches", () => {
+    try {
+      resolveVersion("//kopexa.com/frameworks/iso27001@^3", versions);
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(KRNError);
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_VERSION);
+      expect((err as KRNError).message).toBe(
+        "no version of //kopexa.com/frameworks/iso27001 matches ^3",
+      );
+    }
+  });
+
+  it("throws on invalid KRNs and selectors", () => {
+    expectCode(
+      () => resolveVersion("//example.com/frameworks/x@latest", versions),
+      KRNErrorCode.INVALID_DOMAIN,
+    );
+    expectCode(
+      () => resolveVersion("//kopexa.com/frameworks/x@^", versions),
+      KRNErrorCode.INVALID_VERSION,
+    );
+  });
+
+  it("parses strings with the parse options", () => {
+    const options = { domain: "kopexa.test" };
+    expect(
+      resolveVersion(
+        "//kopexa.test/frameworks/a@^1.2",
+        versions,
+        options,
+      ).toString(),
+    ).toBe("//kopexa.test/frameworks/a@v1.4.1");
+    expect(
+      tryResolveVersion("//kopexa.test/frameworks/a", versions, options)
+        ?.domain,
+    ).toBe("kopexa.test");
+    expect(
+      tryResolveVersion("//kopexa.test/frameworks/a@^1", versions),
+    ).toBeNull();
+  });
+
+  it("tryResolveVersion returns null on failure", () => {
+    expect(
+      tryResolveVersion("//kopexa.com/frameworks/x@^3", versions),
+    ).toBeNull();
+    expect(
+      tryResolveVersion("//kopexa.com/frameworks/x@~1.2", versions)?.version,
+    ).toBe("v1.2.5");
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Version selectors - resolve KRNs like //kopexa.com/frameworks/iso27001@^1.2
+ * to a concrete version out of the available ones.
+ *
+ * Selector Format:
+ *   latest              the newest version that is not a keyword or pre-release
+ *   {version}           exactly this version, e.g. v1.2.3 or draft
+ *   ^{semver}           compatible versions: ^1.2 is >=1.2.0 <2.0.0, ^0.2 is >=0.2.0 <0.3.0
+ *   ~{semver}           patch versions: ~1.2 is >=1.2.0 <1.3.0, ~1 is >=1.0.0 <2.0.0
+ *   {op}{version}       comparison with a semver or date, op is one of >= > <= < =
+ *   {range},{range}     all ranges must match, e.g. >=2022-01-01,<2023
+ *
+ * Ranges and latest only select released versions: semvers without
+ * pre-release, dates and for latest also other versions; never draft.
+ * Comparisons only match versions of the same kind as their bound, so
+ * >=2022-01-01 never matches v1.
+ *
+ * Selectors are not valid KRN versions, so concrete KRNs stay strict:
+ * KRN.parse rejects //kopexa.com/frameworks/iso27001@^1.2.
+ */
+
+import {
+  compareVersions,
+  isValidVersion,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+  parseVersion,
+  type VersionInfo,
+} from "./krn.js";
+
+/** Selector for the newest released version */
+const LATEST = "latest";
+
+/** Comparison operators, longest first so that >= is not read as > */
+const OPERATORS = [">=", "<=", ">", "<", "="] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+/** A comparison of a version with a bound */
+interface Comparator {
+  op: Operator;
+  bound: VersionInfo;
+}
+
+/** Compare the numbers of two versions of the same kind. */
+function compareBound(v: VersionInfo, bound: VersionInfo): number {
+  // Missing semver parts are 0, missing date parts the start of the period
+  const pad = v.kind === "date" ? 1 : 0;
+  const length = Math.max(v.numbers.length, bound.numbers.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (v.numbers[i] ?? pad) - (bound.numbers[i] ?? pad);
+    if (diff !== 0) {
+      return Math.sign(diff);
+    }
+  }
+  return 0;
+}
+
+/** Check if a version satisfies a comparator. */
+function satisfies(v: VersionInfo, c: Comparator): boolean {
+  if (v.kind !== c.bound.kind) {
+    return false;
+  }
+  const cmp = compareBound(v, c.bound);
+  switch (c.op) {
+    case ">=":
+      return cmp >= 0;
+    case ">":
+      return cmp > 0;
+    case "<=":
+      return cmp <= 0;
+    case "<":
+      return cmp < 0;
+    default:
+      return cmp === 0;
+  }
+}
+
+/** Check if a version is released, i.e. may be selected by ranges. */
+function isReleased(v: VersionInfo): boolean {
+  return (
+    (v.kind === "semver" && v.prerelease.length === 0) || v.kind === "date"
+  );
+}
+
+/**
+ * Parse the bound of a range.
+ * @throws {KRNError} if the bound is not a released semver or date
+ */
+function parseBound(
+  input: string,
+  bound: string,
+  kinds: VersionInfo["kind"][],
+): VersionInfo {
+  const v = isValidVersion(bound) ? parseVersion(bound) : null;
+  if (!v || !kinds.includes(v.kind) || v.prerelease.length > 0) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_VERSION,
+      `invalid version selector: ${input}`,
+    );
+  }
+  return v;
+}
+
+/** Build a semver bound from its numbers. */
+function semver(numbers: number[]): VersionInfo {
+  return {
+    raw: numbers.join("."),
+    kind: "semver",
+    numbers,
+    prerelease: [],
+  };
+}
+
+/**
+ * Parse one range of a selector into comparators.
+ * @throws {KRNError} if the range is invalid
+ */
+function parseRange(input: string, range: string): Comparator[] {
+  if (range.startsWith("^") || range.startsWith("~")) {
+    const lower = parseBound(input, range.slice(1), ["semver"]);
+    const [major = 0, minor = 0] = lower.numbers;
+    let upper: number[];
+    if (range.startsWith("^")) {
+      // ^0.x stays below the next minor version
+      upper =
+        major > 0 || lower.numbers.length < 2 ? [major + 1] : [0, minor + 1];
+    } else {
+      upper = lower.numbers.length < 2 ? [major + 1] : [major, minor + 1];
+    }
+    return [
+      { op: ">=", bound: lower },
+      { op: "<", bound: semver(upper) },
+    ];
+  }
+
+  const op = OPERATORS.find((o) => range.startsWith(o));
+  if (!op) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_VERSION,
+      `invalid version selector: ${input}`,
+    );
+  }
+  return [
+    {
+      op,
+      bound: parseBound(input, range.slice(op.length), ["semver", "date"]),
+    },
+  ];
+}
+
+/**
+ * VersionSelector selects a version out of the available versions of a
+ * resource. See the module documentation for the syntax.
+ */
+export class VersionSelector {
+  private readonly _input: string;
+  /** Exact version, or null for latest and ranges */
+  private readonly _exact: string | null;
+  private readonly _comparators: Comparator[];
+
+  private constructor(
+    input: string,
+    exact: string | null,
+    comparators: Comparator[],
+  ) {
+    this._input = input;
+    this._exact = exact;
+    this._comparators = comparators;
+  }
+
+  /**
+   * Parse a version selector.
+   * @throws {KRNError} if the string is not a valid selector
+   */
+  static parse(input: string): VersionSelector {
+    if (!input) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_VERSION,
+        "empty version selector",
+      );
+    }
+    if (input === LATEST) {
+      return new VersionSelector(input, null, []);
+    }
+    if (isValidVersion(input)) {
+      return new VersionSelector(input, input, []);
+    }
+    const comparators = input
+      .split(",")
+      .flatMap((range) => parseRange(input, range));
+    return new VersionSelector(input, null, comparators);
+  }
+
+  /**
+   * Parse a version selector, returning null if invalid instead of throwing.
+   */
+  static tryParse(s: string): VersionSelector | null {
+    try {
+      return VersionSelector.parse(s);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if a string is a valid version selector.
+   */
+  static isValid(s: string): boolean {
+    return VersionSelector.tryParse(s) !== null;
+  }
+
+  /** Get the string representation of the selector. */
+  toString(): string {
+    return this._input;
+  }
+
+  /** Check if the selector is a concrete version rather than a range. */
+  isExact(): boolean {
+    return this._exact !== null;
+  }
+
+  /**
+   * Check if a version satisfies the selector.
+   * @throws {KRNError} if the version is invalid
+   */
+  matches(version: string): boolean {
+    const v = parseVersion(version);
+    if (this._exact !== null) {
+      return version === this._exact;
+    }
+    if (this._comparators.length === 0) {
+      // latest: any version that is neither a keyword nor a pre-release
+      return v.kind !== "keyword" && v.prerelease.length === 0;
+    }
+    return isReleased(v) && this._comparators.every((c) => satisfies(v, c));
+  }
+
+  /**
+   * Select the newest matching version, in the order of compareVersions.
+   * Returns null if no version matches.
+   * @throws {KRNError} if any version is invalid
+   */
+  select(versions: Iterable<string>): string | null {
+    let best: string | null = null;
+    for (const version of versions) {
+      if (
+        this.matches(version) &&
+        (best === null || compareVersions(version, best) > 0)
+      ) {
+        best = version;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Resolve the version selector of a KRN against the available versions and
+ * return the KRN with the selected version. Unversioned KRNs are returned
+ * as they are.
+ *
+ * Example:
+ *   resolveVersion("//kopexa.com/frameworks/iso27001@^1.2", ["v1.2.0", "v1.4.1", "v2.0.0"])
+ *   // //kopexa.com/frameworks/iso27001@v1.4.1
+ * String KRNs are parsed with the given options, e.g. another base domain.
+ * @throws {KRNError} if the KRN or selector is invalid or no version matches
+ */
+export function resolveVersion(
+  target: KRN | string,
+  available: Iterable<string>,
+  options: KRNParseOptions = {},
+): KRN {
+  let base: KRN;
+  let selector: VersionSelector;
+  if (typeof target === "string") {
+    const atIndex = target.indexOf("@");
+    if (atIndex === -1) {
+      return KRN.parse(target, options);
+    }
+    base = KRN.parse(target.slice(0, atIndex), options);
+    selector = VersionSelector.parse(target.slice(atIndex + 1));
+  } else {
+    if (!target.hasVersion()) {
+      return target;
+    }
+    base = target.withoutVersion();
+    selector = VersionSelector.parse(target.version);
+  }
+
+  const version = selector.select(available);
+  if (version === null) {
+    throw new KRNError(
+      KRNErrorCode.INVALID_VERSION,
+      `no version of ${base.toString()} matches ${selector.toString()}`,
+    );
+  }
+  return base.withVersion(version);
+}
+
+/**
+ * Resolve the version selector of a KRN, returning null if invalid or no
+ * version matches instead of throwing.
+ */
+export function tryResolveVersion(
+  target: KRN | string,
+  available: Iterable<string>,
+  options: KRNParseOptions = {},
+): KRN | null {
+  try {
+    return resolveVersion(target, available, options);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,336 @@
+import { describe, expect, it } from "vitest";
+import {
+  createKRNParser,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  KRNSchemaRegistry,
+  KRNServiceRegistry,
+} from "./index.js";
+
+function services(): KRNServiceRegistry {
+  return new KRNServiceRegistry()
+    .register("catalog", {
+      title: "Catalog",
+      schema: { roots: ["frameworks"], children: { frameworks: ["controls"] } },
+      metadata: { owner: "content" },
+    })
+    .register("isms", {
+      schema: { roots: ["tenants"], children: { tenants: ["workspaces"] } },
+    })
+    .register("policy");
+}
+
+function expectError(fn: () => unknown, code: KRNErrorCode, message?: string) {
+  try {
+    fn();
+    expect.fail("expected KRNError");
+  } catch (err) {
+    expect(err).toBeInstanceOf(KRNError);
+    expect((err as KRNError).code).toBe(code);
+    if (message) {
+      expect((err as KRNError).message).toBe(message);
+    }
+  }
+}
+
+describe("KRNServiceRegistry", () => {
+  describe("register", () => {
+    it("tracks registered services and their info", () => {
+      const registry = services();
+      expect(registry.has("catalog")).toBe(true);
+      expect(registry.has("typo")).toBe(false);
+      expect(registry.has("")).toBe(false);
+      expect(registry.services()).toEqual(["catalog", "isms", "policy"]);
+      expect(registry.get("catalog")).toEqual({
+        title: "Catalog",
+        schema: {
+          roots: ["frameworks"],
+          children: { frameworks: ["controls"] },
+        },
+        metadata: { owner: "content" },
+      });
+      expect(registry.get("policy")).toEqual({});
+      expect(registry.get("typo")).toBeUndefined();
+    });
+
+    it("copies the info", () => {
+      const roots = ["frameworks"];
+      const registry = new KRNServiceRegistry().register("catalog", {
+        schema: { roots },
+      });
+      roots.push("controls");
+      expect(registry.get("catalog")?.schema).toEqual({
+        roots: ["frameworks"],
+      });
+      expect(registry.tryParse("//catalog.kopexa.com/controls/x")).toBeNull();
+      expect(Object.isFrozen(registry.get("catalog"))).toBe(true);
+    });
+
+    it("replaces an existing registration", () => {
+      const registry = services().register("catalog", {
+        schema: { roots: ["controls"] },
+      });
+      expect(
+        registry.tryParse("//catalog.kopexa.com/controls/x"),
+      ).not.toBeNull();
+      expect(registry.tryParse("//catalog.kopexa.com/frameworks/x")).toBeNull();
+    });
+
+    it("drops the schema of a replaced registration", () => {
+      const registry = services().register("catalog");
+      expect(
+        registry.tryParse("//catalog.kopexa.com/anything/x/else/y"),
+      ).not.toBeNull();
+    });
+
+    it("accepts the empty service", () => {
+      const registry = new KRNServiceRegistry().register("");
+      expect(registry.tryParse("//kopexa.com/frameworks/x")).not.toBeNull();
+    });
+
+    it("rejects invalid service names", () => {
+      expectError(
+        () => new KRNServiceRegistry().register("Catalog"),
+        KRNErrorCode.INVALID_DOMAIN,
+        "invalid service name: Catalog",
+      );
+    });
+  });
+
+  describe("validate", () => {
+    it("accepts KRNs of registered services", () => {
+      const registry = services();
+      expect(
+        registry.isValid(KRN.parse("//catalog.kopexa.com/frameworks/x")),
+      ).toBe(true);
+      expect(
+        registry.isValid(
+          KRN.parse("//isms.kopexa.com/tenants/acme/workspaces/main"),
+        ),
+      ).toBe(true);
+    });
+
+    it("rejects unknown services with UNKNOWN_SERVICE", () => {
+      const registry = services();
+      expectError(
+        () => registry.validate(KRN.parse("//typo.kopexa.com/frameworks/x")),
+        KRNErrorCode.UNKNOWN_SERVICE,
+        "unknown service: typo",
+      );
+      expectError(
+        () => registry.validate(KRN.parse("//kopexa.com/frameworks/x")),
+        KRNErrorCode.UNKNOWN_SERVICE,
+        "unknown service: (no service)",
+      );
+    });
+
+    it("rejects KRNs that violate the schema of the service", () => {
+      expectError(
+        () => services().validate(KRN.parse("//catalog.kopexa.com/controls/x")),
+        KRNErrorCode.INVALID_HIERARCHY,
+        "controls is not a root collection of catalog",
+      );
+      expectError(
+        () =>
+          services().validate(
+            KRN.parse("//catalog.kopexa.com/frameworks/x/risks/y"),
+          ),
+        KRNErrorCode.INVALID_HIERARCHY,
+        "risks is not allowed below frameworks in catalog",
+      );
+    });
+
+    it("validates like a schema registry with the same schemas", () => {
+      const schema = {
+        roots: ["frameworks"],
+        children: { frameworks: ["controls"] },
+      };
+      const schemas = new KRNSchemaRegistry().register("catalog", schema);
+      const registry = new KRNServiceRegistry().register("catalog", { schema });
+      for (const input of [
+        "//catalog.kopexa.com/frameworks/x/controls/y",
+        "//catalog.kopexa.com/controls/y",
+        "//catalog.kopexa.com/frameworks/x/objectives/z",
+      ]) {
+        const k = KRN.parse(input);
+        expect(registry.isValid(k)).toBe(schemas.isValid(k));
+      }
+    });
+
+    it("allows any collections without schema", () => {
+      expect(
+        services().isValid(KRN.parse("//policy.kopexa.com/anything/x")),
+      ).toBe(true);
+    });
+  });
+
+  describe("parse", () => {
+    it("parses KRNs of registered services", () => {
+      const k = services().parse("//catalog.kopexa.com/frameworks/iso27001");
+      expect(k.service).toBe("catalog");
+    });
+
+    it("throws for unknown services", () => {
+      expectError(
+        () => services().parse("//typo.kopexa.com/frameworks/iso27001"),
+        KRNErrorCode.UNKNOWN_SERVICE,
+      );
+    });
+
+    it("reports syntax errors before the registry", () => {
+      expectError(
+        () => services().parse("//typo.kopexa.com/frameworks"),
+        KRNErrorCode.INVALID_KRN,
+      );
+    });
+
+    it("takes parse options", () => {
+      const k = services().parse("//catalog.kopexa.test/frameworks/x", {
+        domain: "kopexa.test",
+      });
+      expect(k.domain).toBe("kopexa.test");
+    });
+
+    it("returns null from tryParse", () => {
+      expect(services().tryParse("//typo.kopexa.com/frameworks/x")).toBeNull();
+    });
+  });
+
+  describe("KRN.parse with services", () => {
+    it("rejects unknown services", () => {
+      expectError(
+        () =>
+          KRN.parse("//typo.kopexa.com/frameworks/x", { services: services() }),
+        KRNErrorCode.UNKNOWN_SERVICE,
+      );
+      expect(
+        KRN.isValid("//typo.kopexa.com/frameworks/x", {
+          services: services(),
+        }),
+      ).toBe(false);
+    });
+
+    it("applies to URNs and objects", () => {
+      const registry = services();
+      expect(
+        KRN.tryFromURN("urn:kopexa:typo:frameworks:x", { services: registry }),
+      ).toBeNull();
+      expect(
+        KRN.tryFromObject(
+          {
+            service: "typo",
+            segments: [{ collection: "frameworks", resourceId: "x" }],
+          },
+          { services: registry },
+        ),
+      ).toBeNull();
+    });
+
+    it("applies to resolved references", () => {
+      const base = services().parse("//catalog.kopexa.com/frameworks/x");
+      expect(KRN.resolve(base, "/frameworks/y").toString()).toBe(
+        "//catalog.kopexa.com/frameworks/y",
+      );
+      expectError(
+        () => KRN.resolve(base, "/controls/y"),
+        KRNErrorCode.INVALID_HIERARCHY,
+      );
+    });
+
+    it("applies to parsers", () => {
+      const parser = createKRNParser({ services: services() });
+      expect(parser.tryParse("//typo.kopexa.com/frameworks/x")).toBeNull();
+      expect(parser.services?.has("catalog")).toBe(true);
+    });
+  });
+
+  describe("withService", () => {
+    it("honors the registry of the KRN", () => {
+      const k = services().parse("//isms.kopexa.com/tenants/acme");
+      expectError(
+        () => k.withService("typo"),
+        KRNErrorCode.UNKNOWN_SERVICE,
+        "unknown service: typo",
+      );
+      expectError(
+        () => k.withService("catalog"),
+        KRNErrorCode.INVALID_HIERARCHY,
+      );
+      expect(k.withService("policy").toString()).toBe(
+        "//policy.kopexa.com/tenants/acme",
+      );
+      expectError(() => k.withoutService(), KRNErrorCode.UNKNOWN_SERVICE);
+    });
+
+    it("keeps the registry in derived KRNs", () => {
+      const k = services()
+        .parse("//isms.kopexa.com/tenants/acme")
+        .child("workspaces", "main")
+        .parent();
+      expect(() => k?.withService("typo")).toThrow(KRNError);
+    });
+
+    it("allows any service without registry", () => {
+      const k = KRN.parse("//isms.kopexa.com/tenants/acme");
+      expect(k.withService("typo").service).toBe("typo");
+    });
+  });
+
+  describe("derived KRNs", () => {
+    const iso = () => services().parse("//catalog.kopexa.com/frameworks/iso");
+
+    it("checks children against the schema", () => {
+      expect(iso().child("controls", "5.1.1").toString()).toBe(
+        "//catalog.kopexa.com/frameworks/iso/controls/5.1.1",
+      );
+      expectError(
+        () => iso().child("tenants", "x"),
+        KRNErrorCode.INVALID_HIERARCHY,
+      );
+    });
+
+    it("checks slices against the schema", () => {
+      const control = iso().child("controls", "a");
+      expect(control.slice(0, 1).toString()).toBe(
+        "//catalog.kopexa.com/frameworks/iso",
+      );
+      expectError(() => control.slice(1), KRNErrorCode.INVALID_HIERARCHY);
+    });
+
+    it("allows any path without registry", () => {
+      const k = KRN.parse("//catalog.kopexa.com/frameworks/iso");
+      expect(k.child("tenants", "x").slice(1).toString()).toBe(
+        "//catalog.kopexa.com/tenants/x",
+      );
+    });
+  });
+
+  describe("builder", () => {
+    it("rejects unknown services in service()", () => {
+      const builder = services().builder().service("typo");
+      expectError(
+        () => builder.resource("frameworks", "x").build(),
+        KRNErrorCode.UNKNOWN_SERVICE,
+        "unknown service: typo",
+      );
+    });
+
+    it("requires a registered service for KRNs without service", () => {
+      expectError(
+        () => services().builder().resource("frameworks", "x").build(),
+        KRNErrorCode.UNKNOWN_SERVICE,
+      );
+    });
+
+    it("builds KRNs of registered services", () => {
+      const k = services()
+        .builder()
+        .service("catalog")
+        .resource("frameworks", "iso27001")
+        .build();
+      expect(k.toString()).toBe("//catalog.kopexa.com/frameworks/iso27001");
+      expect(() => k.withService("typo")).toThrow(KRNError);
+    });
+  });
+});
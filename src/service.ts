@@ -0,0 +1,172 @@
+/**
+ * Service registry - the known services of KRNs, with metadata and the
+ * hierarchy schema of their collections.
+ *
+ * isValidService only checks the syntax of service names, so
+ * //typo.kopexa.com/... is a valid KRN. Parsing with a registry rejects
+ * services that are not registered:
+ *
+ *   const services = new KRNServiceRegistry()
+ *     .register("catalog", {
+ *       title: "Catalog",
+ *       schema: { roots: ["frameworks"], children: { frameworks: ["controls"] } },
+ *     })
+ *     .register("isms");
+ *
+ *   services.parse("//catalog.kopexa.com/frameworks/iso27001");
+ *   services.parse("//typo.kopexa.com/frameworks/iso27001"); // UNKNOWN_SERVICE
+ *   KRN.parse(input, { services }); // the same
+ */
+
+import {
+  isValidService,
+  KRN,
+  KRNBuilder,
+  type KRNCollections,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+} from "./krn.js";
+import { KRNSchemaRegistry, type ServiceSchema } from "./schema.js";
+
+/** Metadata and rules of a registered service */
+export interface ServiceInfo {
+  /** Display name, e.g. "Control Catalog" */
+  title?: string;
+  /** What the service manages */
+  description?: string;
+  /**
+   * Allowed collection hierarchy, checked like KRNSchemaRegistry.
+   * If unset, any collections are allowed.
+   */
+  schema?: ServiceSchema;
+  /** Further metadata, e.g. the owning team */
+  metadata?: Readonly<Record<string, unknown>>;
+}
+
+/** Parse options of a registry, which sets the services itself */
+export type KRNServiceParseOptions = Omit<KRNParseOptions, "services">;
+
+/**
+ * KRNServiceRegistry holds the known services and validates KRNs against
+ * them.
+ *
+ * Services are keyed by name; register "" to allow KRNs without a service.
+ */
+export class KRNServiceRegistry {
+  private readonly _services = new Map<string, ServiceInfo>();
+  /** Schemas of the services that have one */
+  private _schemas = new KRNSchemaRegistry({ allowUnregistered: true });
+
+  /**
+   * Register a service, replacing any previous registration.
+   * @throws {KRNError} if the service name is invalid
+   */
+  register(service: string, info: ServiceInfo = {}): this {
+    if (service !== "" && !isValidService(service)) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_DOMAIN,
+        `invalid service name: ${service}`,
+      );
+    }
+    // Copy the info, so later changes to the given one have no effect
+    const copy: ServiceInfo = { ...info };
+    if (info.schema) {
+      const schema: ServiceSchema = { roots: [...info.schema.roots] };
+      if (info.schema.children) {
+        schema.children = Object.fromEntries(
+          Object.entries(info.schema.children).map(([collection, allowed]) => [
+            collection,
+            [...allowed],
+          ]),
+        );
+      }
+      copy.schema = schema;
+    }
+    this._services.set(service, Object.freeze(copy));
+
+    // Rebuild the schemas, as a replaced registration may have none
+    this._schemas = new KRNSchemaRegistry({ allowUnregistered: true });
+    for (const [name, registered] of this._services) {
+      if (registered.schema) {
+        this._schemas.register(name, registered.schema);
+      }
+    }
+    return this;
+  }
+
+  /** Check if a service is registered. */
+  has(service: string): boolean {
+    return this._services.has(service);
+  }
+
+  /** Get the info of a registered service, or undefined if unknown. */
+  get(service: string): ServiceInfo | undefined {
+    return this._services.get(service);
+  }
+
+  /** Get the registered services. */
+  services(): string[] {
+    return [...this._services.keys()];
+  }
+
+  /**
+   * Validate that the service of a KRN is registered and the KRN follows
+   * the schema of the service, if any.
+   * @throws {KRNError} with UNKNOWN_SERVICE if the service is not registered,
+   * or INVALID_HIERARCHY if the KRN violates the schema
+   */
+  validate(k: KRN): void {
+    if (!this._services.has(k.service)) {
+      throw new KRNError(
+        KRNErrorCode.UNKNOWN_SERVICE,
+        `unknown service: ${k.service || "(no service)"}`,
+      );
+    }
+    this._schemas.validate(k);
+  }
+
+  /** Check if a KRN conforms to the registered services. */
+  isValid(k: KRN): boolean {
+    try {
+      this.validate(k);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a KRN string and validate it against the registered services.
+   * The KRN remembers the registry, see KRN.withService.
+   * @throws {KRNError} if the string is not a valid KRN or its service is
+   * not registered
+   */
+  parse<S extends string>(
+    input: S,
+    options: KRNServiceParseOptions = {},
+  ): KRN<KRNCollections<S>> {
+    return KRN.parse(input, { ...options, services: this });
+  }
+
+  /**
+   * Parse and validate a KRN string, returning null if invalid instead of throwing.
+   */
+  tryParse<S extends string>(
+    s: S,
+    options: KRNServiceParseOptions = {},
+  ): KRN<KRNCollections<S>> | null {
+    try {
+      return this.parse(s, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a builder whose service must be registered.
+   */
+  builder(options: KRNServiceParseOptions = {}): KRNBuilder {
+    return new KRNBuilder({ ...options, services: this });
+  }
+}
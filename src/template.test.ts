@@ -0,0 +1,246 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  KRNTemplate,
+  type KRNTemplateVariables,
+} from "./index.js";
+
+const CONTROL_TEMPLATE =
+  "//catalog.kopexa.com/frameworks/{framework}/controls/{control}";
+
+describe("KRNTemplate.compile", () => {
+  it("compiles a template and lists its variables", () => {
+    const t = KRNTemplate.compile(CONTROL_TEMPLATE);
+    expect(t.variables()).toEqual(["framework", "control"]);
+    expect(t.toString()).toBe(CONTROL_TEMPLATE);
+  });
+
+  it("compiles literals and version variables", () => {
+    const t = KRNTemplate.compile(
+      "//kopexa.com/tenants/{tenant}/workspaces/main@{version}",
+    );
+    expect(t.variables()).toEqual(["tenant", "version"]);
+  });
+
+  describe("invalid templates", () => {
+    const cases = [
+      { input: "", code: KRNErrorCode.EMPTY_KRN },
+      { input: "kopexa.com/frameworks/{f}", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com/frameworks", code: KRNErrorCode.INVALID_KRN },
+      {
+        input: "//kopexa.com/frameworks/{f}/controls",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      { input: "//kopexa.com/{c}/iso27001", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com//{f}", code: KRNErrorCode.INVALID_KRN },
+      { input: "//kopexa.com/frameworks/{1f}", code: KRNErrorCode.INVALID_KRN },
+      {
+        input: "//kopexa.com/frameworks/pre-{f}",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "//kopexa.com/frameworks/{f}/controls/{f}",
+        code: KRNErrorCode.INVALID_KRN,
+      },
+      {
+        input: "//kopexa.com/frameworks/-bad",
+        code: KRNErrorCode.INVALID_RESOURCE_ID,
+      },
+      {
+        input: "//kopexa.com/frame works/{f}",
+        code: KRNErrorCode.INVALID_COLLECTION,
+      },
+      {
+        input: "//kopexa.com/frameworks/{f}@v",
+        code: KRNErrorCode.INVALID_VERSION,
+      },
+      {
+        input: "//{svc}.kopexa.com/frameworks/{f}",
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+      {
+        input: "//example.com/frameworks/{f}",
+        code: KRNErrorCode.INVALID_DOMAIN,
+      },
+    ];
+
+    for (const tc of cases) {
+      it(`rejects "${tc.input}" with ${tc.code}`, () => {
+        try {
+          KRNTemplate.compile(tc.input);
+          expect.fail("expected KRNError");
+        } catch (err) {
+          expect(err).toBeInstanceOf(KRNError);
+          expect((err as KRNError).code).toBe(tc.code);
+        }
+      });
+    }
+  });
+
+  it("tryCompile returns null for invalid templates", () => {
+    expect(KRNTemplate.tryCompile("//kopexa.com/{c}/x")).toBeNull();
+    expect(KRNTemplate.tryCompile(CONTROL_TEMPLATE)).not.toBeNull();
+  });
+});
+
+describe("KRNTemplate.render", () => {
+  const t = KRNTemplate.compile(CONTROL_TEMPLATE);
+
+  it("renders variables into a KRN", () => {
+    const k = t.render({ framework: "iso27001", control: "5.1.1" });
+    expect(k).toBeInstanceOf(KRN);
+    expect(k.toString()).toBe(
+      "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1",
+    );
+  });
+
+  it("renders literals and versions", () => {
+    const v = KRNTemplate.compile(
+      "//kopexa.com/tenants/{tenant}/workspaces/main@{version}",
+    );
+    expect(v.render({ tenant: "acme-corp", version: "v2" }).toString()).toBe(
+      "//kopexa.com/tenants/acme-corp/workspaces/main@v2",
+    );
+  });
+
+  it("throws on missing variables", () => {
+    expect(() =>
+      t.render({ framework: "iso27001" } as {
+        framework: string;
+        control: string;
+      }),
+    ).toThrow("missing template variable: control");
+  });
+
+  it("throws on invalid values", () => {
+    try {
+      t.render({ framework: "iso27001", control: "-bad" });
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_RESOURCE_ID);
+    }
+  });
+});
+
+describe("KRNTemplate domains", () => {
+  const options = { domain: "kopexa.test" };
+  const t = KRNTemplate.compile(
+    "//catalog.kopexa.test/frameworks/{framework}",
+    options,
+  );
+
+  it("renders KRNs under its domain", () => {
+    const k = t.render({ framework: "iso27001" });
+    expect(t.domain).toBe("kopexa.test");
+    expect(k.domain).toBe("kopexa.test");
+    expect(k.toString()).toBe("//catalog.kopexa.test/frameworks/iso27001");
+  });
+
+  it("only matches KRNs of its domain", () => {
+    expect(t.match("//catalog.kopexa.test/frameworks/iso27001")).toEqual({
+      framework: "iso27001",
+    });
+    expect(t.match("//catalog.kopexa.com/frameworks/iso27001")).toBeNull();
+    const foreign = KRN.parse("//catalog.evil.example/frameworks/iso27001", {
+      domain: "evil.example",
+    });
+    expect(KRNTemplate.compile(CONTROL_TEMPLATE).domain).toBe("kopexa.com");
+    expect(
+      KRNTemplate.compile("//catalog.kopexa.com/frameworks/{f}").match(foreign),
+    ).toBeNull();
+  });
+
+  it("rejects templates of other domains", () => {
+    expect(
+      KRNTemplate.tryCompile("//catalog.kopexa.test/frameworks/{f}"),
+    ).toBeNull();
+    expect(
+      KRNTemplate.tryCompile("//catalog.kopexa.com/frameworks/{f}", options),
+    ).toBeNull();
+  });
+
+  it("renders with the options of the template", () => {
+    const strict = KRNTemplate.compile("//kopexa.com/tenants/{tenant}", {
+      allowedServices: ["catalog"],
+    });
+    expect(() => strict.render({ tenant: "acme" })).toThrow(KRNError);
+  });
+});
+
+describe("KRNTemplate.match", () => {
+  const t = KRNTemplate.compile(CONTROL_TEMPLATE);
+
+  it("returns variable values for matching KRNs", () => {
+    expect(
+      t.match("//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1"),
+    ).toEqual({ framework: "iso27001", control: "5.1.1" });
+  });
+
+  it("accepts KRN instances", () => {
+    const k = KRN.parse("//catalog.kopexa.com/frameworks/nist/controls/GV.1");
+    expect(t.matches(k)).toBe(true);
+  });
+
+  it("distinguishes templates sharing collections", () => {
+    const objectives = KRNTemplate.compile(
+      `${CONTROL_TEMPLATE}/objectives/{objective}`,
+    );
+    const control = "//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1";
+    const objective = `${control}/objectives/a`;
+    expect(t.matches(control)).toBe(true);
+    expect(t.matches(objective)).toBe(false);
+    expect(objectives.matches(control)).toBe(false);
+    expect(objectives.match(objective)).toEqual({
+      framework: "iso27001",
+      control: "5.1.1",
+      objective: "a",
+    });
+  });
+
+  it("returns null for other services, collections or literals", () => {
+    expect(
+      t.match("//kopexa.com/frameworks/iso27001/controls/5.1.1"),
+    ).toBeNull();
+    expect(
+      t.match("//catalog.kopexa.com/frameworks/iso27001/policies/5.1.1"),
+    ).toBeNull();
+    const lit = KRNTemplate.compile(
+      "//kopexa.com/tenants/{tenant}/workspaces/main",
+    );
+    expect(lit.match("//kopexa.com/tenants/acme/workspaces/dev")).toBeNull();
+    expect(lit.match("//kopexa.com/tenants/acme/workspaces/main")).toEqual({
+      tenant: "acme",
+    });
+  });
+
+  it("matches versions only when the template has one", () => {
+    expect(
+      t.match("//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v1"),
+    ).toBeNull();
+    const v = KRNTemplate.compile(
+      "//kopexa.com/frameworks/{framework}@{version}",
+    );
+    expect(v.match("//kopexa.com/frameworks/iso27001@v1")).toEqual({
+      framework: "iso27001",
+      version: "v1",
+    });
+    expect(v.match("//kopexa.com/frameworks/iso27001")).toBeNull();
+    const lit = KRNTemplate.compile("//kopexa.com/frameworks/{framework}@v1");
+    expect(lit.matches("//kopexa.com/frameworks/iso27001@v2")).toBe(false);
+  });
+
+  it("returns null for invalid KRN strings", () => {
+    expect(t.match("invalid")).toBeNull();
+  });
+});
+
+describe("KRNTemplateVariables", () => {
+  it("infers variable names from literal templates", () => {
+    expectTypeOf<KRNTemplateVariables<typeof CONTROL_TEMPLATE>>().toEqualTypeOf<
+      "framework" | "control"
+    >();
+    expectTypeOf<KRNTemplateVariables<string>>().toEqualTypeOf<string>();
+  });
+});
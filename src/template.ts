@@ -0,0 +1,332 @@
+/**
+ * KRN templates - Google-style resource name templates with named variables.
+ *
+ * Template Format:
+ *   //kopexa.com/{collection}/{variable}[/{collection}/{variable}][@{variable}]
+ *   //{service}.kopexa.com/{collection}/{variable}[/{collection}/{variable}][@{variable}]
+ *
+ * Resource IDs and the version are either `{name}` variables or literals.
+ * Collections and the service are always literal. Templates are bound to a
+ * base domain like KRNs, kopexa.com unless the compile options set another
+ * one.
+ *
+ * Examples:
+ *   //catalog.kopexa.com/frameworks/{framework}/controls/{control}
+ *   //isms.kopexa.com/tenants/{tenant}/workspaces/main
+ *   //catalog.kopexa.com/frameworks/{framework}@{version}
+ */
+
+import {
+  baseDomain,
+  isValidCollection,
+  isValidResourceId,
+  isValidVersion,
+  KRN,
+  KRNBuilder,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+  splitDomain,
+} from "./krn.js";
+
+/**
+ * Extract the variable names of a template string at the type level.
+ * Resolves to `string` for templates that are not string literals.
+ */
+export type KRNTemplateVariables<T extends string> = string extends T
+  ? string
+  : T extends `${string}{${infer Name}}${infer Rest}`
+    ? Name | KRNTemplateVariables<Rest>
+    : never;
+
+/** Values for each variable of a template */
+export type KRNTemplateValues<T extends string> = Record<
+  KRNTemplateVariables<T>,
+  string
+>;
+
+const VARIABLE_PATTERN = /^\{([a-zA-Z_][a-zA-Z0-9_]*)\}$/;
+
+/** A literal value or a named variable */
+type Part = { literal: string } | { variable: string };
+
+interface TemplateSegment {
+  collection: string;
+  resourceId: Part;
+}
+
+/**
+ * KRNTemplate compiles a resource name template and renders or matches KRNs.
+ *
+ * A template without a version only matches unversioned KRNs.
+ */
+export class KRNTemplate<T extends string = string> {
+  private readonly _template: string;
+  private readonly _service: string;
+  private readonly _segments: TemplateSegment[];
+  private readonly _version: Part | null;
+  private readonly _variables: string[];
+  private readonly _domain: string;
+  /** Options the template was compiled with, for rendering and parsing */
+  private readonly _options: KRNParseOptions;
+
+  private constructor(
+    template: string,
+    service: string,
+    segments: TemplateSegment[],
+    version: Part | null,
+    variables: string[],
+    domain: string,
+    options: KRNParseOptions,
+  ) {
+    this._template = template;
+    this._service = service;
+    this._segments = segments;
+    this._version = version;
+    this._variables = variables;
+    this._domain = domain;
+    this._options = options;
+  }
+
+  /**
+   * Compile a template string. Options set another base domain or restrict
+   * the rendered KRNs, like for KRN.parse.
+   * @throws {KRNError} if the template is invalid
+   */
+  static compile<T extends string>(
+    template: T,
+    options: KRNParseOptions = {},
+  ): KRNTemplate<T> {
+    const base = baseDomain(options);
+    if (!template) {
+      throw new KRNError(KRNErrorCode.EMPTY_KRN, "empty KRN template");
+    }
+
+    if (!template.startsWith("//")) {
+      throw new KRNError(KRNErrorCode.INVALID_KRN, "must start with //");
+    }
+
+    const variables: string[] = [];
+    const part = (value: string, code: KRNErrorCode): Part => {
+      if (value.includes("{") || value.includes("}")) {
+        const m = VARIABLE_PATTERN.exec(value);
+        if (!m?.[1]) {
+          throw new KRNError(
+            KRNErrorCode.INVALID_KRN,
+            `invalid template variable: ${value}`,
+          );
+        }
+        if (variables.includes(m[1])) {
+          throw new KRNError(
+            KRNErrorCode.INVALID_KRN,
+            `duplicate template variable: ${m[1]}`,
+          );
+        }
+        variables.push(m[1]);
+        return { variable: m[1] };
+      }
+      const valid =
+        code === KRNErrorCode.INVALID_VERSION
+          ? isValidVersion(value)
+          : isValidResourceId(value);
+      if (!valid) {
+        throw new KRNError(code, `invalid template literal: ${value}`);
+      }
+      return { literal: value };
+    };
+
+    let str = template.slice(2);
+
+    // Extract version if present
+    let versionString: string | null = null;
+    const atIndex = str.lastIndexOf("@");
+    if (atIndex !== -1) {
+      versionString = str.slice(atIndex + 1);
+      str = str.slice(0, atIndex);
+    }
+
+    const parts = str.split("/");
+    if (parts.length < 3) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "must have at least domain/collection/id",
+      );
+    }
+
+    const split = splitDomain(parts[0] ?? "", base);
+    if (split instanceof KRNError) {
+      throw split;
+    }
+    const { service } = split;
+
+    const resourcePath = parts.slice(1);
+    if (resourcePath.length % 2 !== 0) {
+      throw new KRNError(
+        KRNErrorCode.INVALID_KRN,
+        "resource path must be pairs of collection/id",
+      );
+    }
+
+    const segments: TemplateSegment[] = [];
+    for (let i = 0; i < resourcePath.length; i += 2) {
+      const collection = resourcePath[i] ?? "";
+      if (!collection) {
+        throw new KRNError(KRNErrorCode.INVALID_KRN, "empty collection name");
+      }
+      if (collection.includes("{") || collection.includes("}")) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `collections cannot be variables: ${collection}`,
+        );
+      }
+      if (!isValidCollection(collection, options.collectionRules)) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_COLLECTION,
+          `invalid collection name: ${collection}`,
+        );
+      }
+      segments.push({
+        collection,
+        resourceId: part(
+          resourcePath[i + 1] ?? "",
+          KRNErrorCode.INVALID_RESOURCE_ID,
+        ),
+      });
+    }
+
+    const version =
+      versionString === null
+        ? null
+        : part(versionString, KRNErrorCode.INVALID_VERSION);
+
+    return new KRNTemplate<T>(
+      template,
+      service,
+      segments,
+      version,
+      variables,
+      base,
+      options,
+    );
+  }
+
+  /**
+   * Compile a template string, returning null if invalid instead of throwing.
+   */
+  static tryCompile<T extends string>(
+    template: T,
+    options: KRNParseOptions = {},
+  ): KRNTemplate<T> | null {
+    try {
+      return KRNTemplate.compile(template, options);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Get the base domain of the template. */
+  get domain(): string {
+    return this._domain;
+  }
+
+  /** Get the template string. */
+  toString(): string {
+    return this._template;
+  }
+
+  /** Get the variable names in the order they appear in the template. */
+  variables(): KRNTemplateVariables<T>[] {
+    return [...this._variables] as KRNTemplateVariables<T>[];
+  }
+
+  /**
+   * Render the template with the given variable values, in the base domain
+   * and with the options of the template.
+   * @throws {KRNError} if a variable is missing or its value is invalid
+   */
+  render(values: KRNTemplateValues<T>): KRN {
+    const lookup = values as Record<string, string | undefined>;
+    const resolve = (p: Part): string => {
+      if ("literal" in p) {
+        return p.literal;
+      }
+      const value = lookup[p.variable];
+      if (value === undefined) {
+        throw new KRNError(
+          KRNErrorCode.INVALID_KRN,
+          `missing template variable: ${p.variable}`,
+        );
+      }
+      return value;
+    };
+
+    const builder = new KRNBuilder(this._options);
+    if (this._service) {
+      builder.service(this._service);
+    }
+    for (const seg of this._segments) {
+      builder.resource(seg.collection, resolve(seg.resourceId));
+    }
+    if (this._version) {
+      builder.version(resolve(this._version));
+    }
+    return builder.build();
+  }
+
+  /**
+   * Match a KRN against the template and return the variable values,
+   * or null if the KRN does not match. KRNs of another base domain never
+   * match.
+   * Strings are parsed with the options of the template first; invalid KRN
+   * strings never match.
+   */
+  match(target: KRN | string): KRNTemplateValues<T> | null {
+    const k =
+      typeof target === "string" ? KRN.tryParse(target, this._options) : target;
+    if (!k || k.domain !== this._domain || k.service !== this._service) {
+      return null;
+    }
+
+    const segments = k.segments();
+    if (segments.length !== this._segments.length) {
+      return null;
+    }
+
+    const values: Record<string, string> = {};
+    const bind = (p: Part, value: string): boolean => {
+      if ("literal" in p) {
+        return p.literal === value;
+      }
+      values[p.variable] = value;
+      return true;
+    };
+
+    for (let i = 0; i < segments.length; i++) {
+      const seg = segments[i];
+      const tmpl = this._segments[i];
+      if (
+        !seg ||
+        !tmpl ||
+        seg.collection !== tmpl.collection ||
+        !bind(tmpl.resourceId, seg.resourceId)
+      ) {
+        return null;
+      }
+    }
+
+    if (this._version) {
+      if (!k.hasVersion() || !bind(this._version, k.version)) {
+        return null;
+      }
+    } else if (k.hasVersion()) {
+      return null;
+    }
+
+    return values as KRNTemplateValues<T>;
+  }
+
+  /** Check if a KRN matches the template. */
+  matches(target: KRN | string): boolean {
+    return this.match(target) !== null;
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { findKRNs, linkify } from "./index.js";
+
+const iso = "//kopexa.com/frameworks/iso27001";
+
+function texts(text: string): string[] {
+  return findKRNs(text).map((m) => m.text);
+}
+
+describe("findKRNs", () => {
+  it("finds KRNs with offsets and parsed instances", () => {
+    const text = `Controls of ${iso} and //catalog.kopexa.com/frameworks/nist-csf/controls/pr.ac-1@v2`;
+    const matches = findKRNs(text);
+    expect(matches).toHaveLength(2);
+    expect(matches[0]?.start).toBe(12);
+    expect(matches[0]?.end).toBe(12 + iso.length);
+    expect(matches[0]?.krn.toString()).toBe(iso);
+    expect(matches[1]?.krn.service).toBe("catalog");
+    expect(matches[1]?.krn.version).toBe("v2");
+    for (const m of matches) {
+      expect(text.slice(m.start, m.end)).toBe(m.text);
+    }
+  });
+
+  it("strips trailing punctuation", () => {
+    expect(texts(`See ${iso}.`)).toEqual([iso]);
+    expect(texts(`See ${iso}@v1.2.3.`)).toEqual([`${iso}@v1.2.3`]);
+    expect(texts(`${iso}, ${iso}; ${iso}: ${iso}! ${iso}?`)).toHaveLength(5);
+    expect(texts(`${iso}/`)).toEqual([iso]);
+    expect(texts(`${iso}@ and ${iso}-`)).toEqual([iso, iso]);
+  });
+
+  it("handles brackets and quotes", () => {
+    expect(texts(`(${iso})`)).toEqual([iso]);
+    expect(texts(`[${iso}]`)).toEqual([iso]);
+    expect(texts(`"${iso}@v2"`)).toEqual([`${iso}@v2`]);
+    expect(texts(`'${iso}'`)).toEqual([iso]);
+    expect(texts(`<${iso}>`)).toEqual([iso]);
+  });
+
+  it("finds KRNs in Markdown", () => {
+    expect(texts(`[ISO 27001](${iso}) and \`${iso}@v1\``)).toEqual([
+      iso,
+      `${iso}@v1`,
+    ]);
+    expect(texts(`**${iso}** and _${iso}_`)).toEqual([iso, iso]);
+  });
+
+  it("finds KRNs in HTML", () => {
+    expect(texts(`<a href="${iso}">${iso}</a><br/>`)).toEqual([iso, iso]);
+  });
+
+  it("ignores URLs and words", () => {
+    expect(texts("https://kopexa.com/frameworks/iso27001")).toEqual([]);
+    expect(texts("a//kopexa.com/frameworks/iso27001")).toEqual([]);
+    expect(texts("me@//kopexa.com/frameworks/iso27001")).toEqual([]);
+    expect(texts("path/to//kopexa.com/frameworks/iso27001")).toEqual([]);
+  });
+
+  it("skips invalid candidates", () => {
+    expect(texts("// comment")).toEqual([]);
+    expect(texts("//example.com/frameworks/iso27001")).toEqual([]);
+    expect(texts("//kopexa.com/frameworks and more")).toEqual([]);
+    expect(texts(`//kopexa.com/frameworks/ ${iso}`)).toEqual([iso]);
+    expect(findKRNs("")).toEqual([]);
+  });
+
+  it("handles long texts", () => {
+    const text = `${iso}, `.repeat(10000);
+    expect(findKRNs(text)).toHaveLength(10000);
+    expect(findKRNs("/".repeat(100000))).toEqual([]);
+  });
+});
+
+describe("linkify", () => {
+  const href = (m: { krn: { toURN(): string } }) =>
+    `https://app.kopexa.com/r/${m.krn.toURN()}`;
+
+  it("writes Markdown links", () => {
+    expect(linkify(`See ${iso}.`, href)).toBe(
+      `See [${iso}](https://app.kopexa.com/r/urn:kopexa::frameworks:iso27001).`,
+    );
+  });
+
+  it("writes HTML links", () => {
+    expect(linkify(`See ${iso}.`, () => "/r?a=1&b=2", { format: "html" })).toBe(
+      `See <a href="/r?a=1&amp;b=2">${iso}</a>.`,
+    );
+  });
+
+  it("leaves KRNs without target unchanged", () => {
+    const text = `${iso} and //catalog.kopexa.com/frameworks/iso27001`;
+    expect(linkify(text, (m) => (m.krn.service ? null : "/x"))).toBe(
+      `[${iso}](/x) and //catalog.kopexa.com/frameworks/iso27001`,
+    );
+  });
+
+  it("passes matches to the callback", () => {
+    const offsets: number[] = [];
+    linkify(`a ${iso} b ${iso}`, (m) => {
+      offsets.push(m.start);
+      return null;
+    });
+    expect(offsets).toEqual([2, 5 + iso.length]);
+  });
+
+  it("returns texts without KRNs unchanged", () => {
+    expect(linkify("no KRNs here", href)).toBe("no KRNs here");
+  });
+
+  it("leaves Markdown links unchanged", () => {
+    for (const text of [
+      `[x](${iso})`,
+      `[${iso}](https://app.kopexa.com)`,
+      `[${iso}](${iso} "title")`,
+    ]) {
+      expect(linkify(text, href)).toBe(text);
+    }
+  });
+
+  it("leaves HTML links and sources unchanged", () => {
+    for (const text of [
+      `<a href="${iso}">x</a>`,
+      `<a class="krn" HREF = '${iso}'>x</a>`,
+      `<img src=${iso}>`,
+    ]) {
+      expect(linkify(text, href, { format: "html" })).toBe(text);
+    }
+    expect(
+      linkify(`<a href="/x">x</a> ${iso}`, () => "/r", { format: "html" }),
+    ).toBe(`<a href="/x">x</a> <a href="/r">${iso}</a>`);
+  });
+
+  it("escapes Markdown link targets", () => {
+    expect(linkify(iso, () => "/r/a b(1)")).toBe(`[${iso}](/r/a%20b%281%29)`);
+  });
+});
+
+describe("parse options", () => {
+  const test = "//kopexa.test/frameworks/iso27001";
+
+  it("finds KRNs under another domain", () => {
+    const text = `See ${test} and ${iso}.`;
+    expect(
+      findKRNs(text, { domain: "kopexa.test" }).map((m) => m.text),
+    ).toEqual([test]);
+    expect(texts(text)).toEqual([iso]);
+  });
+
+  it("links KRNs under another domain", () => {
+    expect(
+      linkify(`See ${test}.`, (m) => `/r/${m.krn.toURN()}`, {
+        parseOptions: { domain: "kopexa.test" },
+      }),
+    ).toBe(`See [${test}](/r/urn:kopexa::frameworks:iso27001).`);
+  });
+});
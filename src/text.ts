@@ -0,0 +1,179 @@
+/**
+ * Text extraction - find KRNs in prose such as policy documents, Markdown
+ * comments or audit notes, and turn them into links.
+ *
+ * A KRN starts at // that does not continue a word or URL, so the path of
+ * https://kopexa.com/... is not matched, and ends before the first character
+ * that cannot be part of a KRN. Trailing punctuation is not part of the
+ * match, as resource IDs and versions end with a letter or digit:
+ *   "See //kopexa.com/frameworks/iso27001@v2." matches ".../iso27001@v2"
+ *   "(//kopexa.com/frameworks/iso27001)"     matches ".../iso27001"
+ *
+ * Example:
+ *   linkify(text, (m) => `https://app.kopexa.com/r/${m.krn.toURN()}`)
+ *   // "See [//kopexa.com/frameworks/iso27001](https://app.kopexa.com/r/...)."
+ */
+
+import { KRN, type KRNParseOptions } from "./krn.js";
+
+/** A KRN found in a text */
+export interface KRNMatch {
+  krn: KRN;
+  /** The matched text, text.slice(start, end) */
+  text: string;
+  /** Offset of the first character of the KRN */
+  start: number;
+  /** Offset after the last character of the KRN */
+  end: number;
+}
+
+/** Link syntax written by linkify */
+export type KRNLinkFormat = "markdown" | "html";
+
+/** Options for linkify */
+export interface LinkifyOptions {
+  /** Link syntax. Defaults to "markdown". */
+  format?: KRNLinkFormat;
+  /** Options for parsing the KRNs, e.g. another base domain, see findKRNs */
+  parseOptions?: KRNParseOptions;
+}
+
+/** Characters of KRN strings */
+const KRN_CHAR_PATTERN = /[a-zA-Z0-9._\-/@]/;
+
+/**
+ * Characters before // that continue a word or URL. Unlike other KRN
+ * characters, _ may precede a KRN, as in Markdown _emphasis_.
+ */
+const CONTINUATION_PATTERN = /[a-zA-Z0-9.\-/@:]/;
+
+/** Characters a KRN never ends with, stripped as trailing punctuation */
+const TRAILING_CHARS = "._-/@";
+
+/**
+ * Text before a KRN that is a link target: a Markdown link destination or
+ * an HTML href or src attribute. Only tested against a few characters
+ * before the KRN, see LINK_TARGET_WINDOW.
+ */
+const LINK_TARGET_PATTERN = /(?:\]\(|\b(?:href|src)\s*=\s*["']?)$/i;
+
+/** Number of characters before a KRN tested against LINK_TARGET_PATTERN */
+const LINK_TARGET_WINDOW = 16;
+
+/** Characters escaped in Markdown link destinations */
+const MARKDOWN_TARGET_PATTERN = /[\s()]/g;
+
+/** Check if a character can be part of a KRN string. */
+function isKRNChar(char: string | undefined): boolean {
+  return char !== undefined && KRN_CHAR_PATTERN.test(char);
+}
+
+/** Escape text for HTML content and attribute values. */
+function escapeHTML(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/** Percent-encode whitespace and parentheses in a Markdown link target. */
+function escapeMarkdownTarget(s: string): string {
+  // encodeURIComponent leaves parentheses as they are
+  return s.replace(MARKDOWN_TARGET_PATTERN, (char) =>
+    char === "(" ? "%28" : char === ")" ? "%29" : encodeURIComponent(char),
+  );
+}
+
+/**
+ * Check if a match is already a link: the target of a Markdown link or an
+ * HTML href or src attribute, or the text of a Markdown link.
+ */
+function isLinked(text: string, match: KRNMatch): boolean {
+  const before = text.slice(
+    Math.max(0, match.start - LINK_TARGET_WINDOW),
+    match.start,
+  );
+  if (LINK_TARGET_PATTERN.test(before)) {
+    return true;
+  }
+  return text[match.start - 1] === "[" && text.startsWith("](", match.end);
+}
+
+/**
+ * Find all KRNs in a text, in order of their position.
+ * Candidates that are not valid KRNs with the given options, such as
+ * //example.com/a/b, are skipped.
+ */
+export function findKRNs(
+  text: string,
+  options: KRNParseOptions = {},
+): KRNMatch[] {
+  const matches: KRNMatch[] = [];
+  let from = 0;
+  for (
+    let start = text.indexOf("//", from);
+    start !== -1;
+    start = text.indexOf("//", from)
+  ) {
+    // Extend over KRN characters
+    let end = start + 2;
+    while (end < text.length && isKRNChar(text[end])) {
+      end++;
+    }
+    from = end;
+
+    // Skip // within words and URLs like https://...
+    const before = text[start - 1];
+    if (before !== undefined && CONTINUATION_PATTERN.test(before)) {
+      continue;
+    }
+
+    // Strip trailing punctuation (using indices to avoid ReDoS)
+    while (end > start + 2 && TRAILING_CHARS.includes(text[end - 1] ?? "")) {
+      end--;
+    }
+
+    const candidate = text.slice(start, end);
+    const k = KRN.tryParse(candidate, options);
+    if (k) {
+      matches.push({ krn: k, text: candidate, start, end });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replace the KRNs in a text with links. The href callback returns the
+ * link target of a match, or null to leave the KRN as is.
+ *
+ * Only the KRNs are written as links, the rest of the text is unchanged,
+ * so for HTML output escape the text first. KRNs that are already links,
+ * like [text](//kopexa.com/...) or <a href="//kopexa.com/...">, are left
+ * as they are.
+ */
+export function linkify(
+  text: string,
+  href: (match: KRNMatch) => string | null,
+  options: LinkifyOptions = {},
+): string {
+  const format = options.format ?? "markdown";
+  let result = "";
+  let last = 0;
+  for (const match of findKRNs(text, options.parseOptions)) {
+    if (isLinked(text, match)) {
+      continue;
+    }
+    const target = href(match);
+    if (target === null) {
+      continue;
+    }
+    result += text.slice(last, match.start);
+    result +=
+      format === "html"
+        ? `<a href="${escapeHTML(target)}">${escapeHTML(match.text)}</a>`
+        : `[${match.text}](${escapeMarkdownTarget(target)})`;
+    last = match.end;
+  }
+  return result + text.slice(last);
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import { KRN, KRNError, KRNTree } from "./index.js";
+
+const iso = "//catalog.kopexa.com/frameworks/iso27001";
+const iso2022 = "//catalog.kopexa.com/frameworks/iso27001-2022";
+
+function tree(): KRNTree<string> {
+  return new KRNTree([
+    [iso, "iso"],
+    [`${iso}/controls/5.1.1`, "5.1.1"],
+    [`${iso}/controls/5.1.2`, "5.1.2"],
+    [`${iso}/controls/5.1.2/guidance/g-1`, "g-1"],
+    [iso2022, "iso2022"],
+    [`${iso2022}/controls/5.1`, "2022-5.1"],
+    ["//kopexa.com/frameworks/iso27001", "no-service"],
+  ]);
+}
+
+function keys(entries: [KRN, string][]): string[] {
+  return entries.map(([k]) => k.toString());
+}
+
+function values(entries: [KRN, string][]): string[] {
+  return entries.map(([, v]) => v);
+}
+
+describe("KRNTree", () => {
+  it("stores values by KRN", () => {
+    const t = tree();
+    expect(t.size).toBe(7);
+    expect(t.get(iso)).toBe("iso");
+    expect(t.get(KRN.parse(`${iso}/controls/5.1.1`))).toBe("5.1.1");
+    expect(t.has("//kopexa.com/frameworks/iso27001")).toBe(true);
+    expect(t.get(`${iso}/controls/5.1.3`)).toBeUndefined();
+    expect(t.has(`${iso}@v1`)).toBe(false);
+    expect(t.get("invalid")).toBeUndefined();
+  });
+
+  it("replaces values", () => {
+    const t = tree();
+    t.set(iso, "changed");
+    expect(t.get(iso)).toBe("changed");
+    expect(t.size).toBe(7);
+  });
+
+  it("throws when setting invalid KRN strings", () => {
+    expect(() => new KRNTree([["invalid", 1]])).toThrow(KRNError);
+  });
+
+  describe("descendantsOf", () => {
+    it("returns entries at any depth in depth-first order", () => {
+      expect(values(tree().descendantsOf(iso))).toEqual([
+        "5.1.1",
+        "5.1.2",
+        "g-1",
+      ]);
+    });
+
+    it("matches whole segments, not string prefixes", () => {
+      expect(values(tree().descendantsOf(iso2022))).toEqual(["2022-5.1"]);
+      expect(
+        tree().descendantsOf("//catalog.kopexa.com/frameworks/iso"),
+      ).toEqual([]);
+    });
+
+    it("keeps services apart", () => {
+      expect(
+        tree().descendantsOf("//isms.kopexa.com/frameworks/iso27001"),
+      ).toEqual([]);
+      expect(tree().descendantsOf("//kopexa.com/frameworks/iso27001")).toEqual(
+        [],
+      );
+    });
+
+    it("returns nothing for unknown or invalid KRNs", () => {
+      expect(tree().descendantsOf(`${iso}/controls/9.9`)).toEqual([]);
+      expect(tree().descendantsOf("invalid")).toEqual([]);
+    });
+  });
+
+  describe("childrenOf", () => {
+    it("returns entries one level below", () => {
+      expect(keys(tree().childrenOf(iso))).toEqual([
+        `${iso}/controls/5.1.1`,
+        `${iso}/controls/5.1.2`,
+      ]);
+    });
+
+    it("skips intermediate paths without value", () => {
+      const t = new KRNTree([[`${iso}/controls/5.1.1`, 1]]);
+      expect(
+        t.childrenOf("//catalog.kopexa.com/frameworks/iso27001"),
+      ).toHaveLength(1);
+      const deep = new KRNTree([[`${iso}/controls/5.1.1/guidance/g-1`, 1]]);
+      expect(deep.childrenOf(iso)).toEqual([]);
+      expect(deep.descendantsOf(iso)).toHaveLength(1);
+    });
+  });
+
+  describe("ancestorsOf", () => {
+    it("returns entries above, nearest first", () => {
+      expect(
+        values(tree().ancestorsOf(`${iso}/controls/5.1.2/guidance/g-1`)),
+      ).toEqual(["5.1.2", "iso"]);
+    });
+
+    it("works for KRNs that are not in the tree", () => {
+      expect(values(tree().ancestorsOf(`${iso}/controls/9.9`))).toEqual([
+        "iso",
+      ]);
+      expect(values(tree().ancestorsOf(`${iso2022}/controls/5.1`))).toEqual([
+        "iso2022",
+      ]);
+    });
+
+    it("returns nothing for roots and invalid KRNs", () => {
+      expect(tree().ancestorsOf(iso)).toEqual([]);
+      expect(tree().ancestorsOf("invalid")).toEqual([]);
+    });
+  });
+
+  describe("nearestAncestorWithValue", () => {
+    it("finds the nearest ancestor with a value", () => {
+      const t = tree();
+      const g = `${iso}/controls/5.1.2/guidance/g-1`;
+      expect(t.nearestAncestorWithValue(g)?.[1]).toBe("5.1.2");
+      t.delete(`${iso}/controls/5.1.2`);
+      expect(t.nearestAncestorWithValue(g)?.[1]).toBe("iso");
+      expect(t.nearestAncestorWithValue(iso)).toBeNull();
+    });
+
+    it("ignores versions for the hierarchy and prefers unversioned values", () => {
+      const t = new KRNTree([
+        [`${iso}@v2`, "v2"],
+        [`${iso}@v1`, "v1"],
+      ]);
+      const child = `${iso}/controls/5.1.1`;
+      expect(t.nearestAncestorWithValue(child)?.[1]).toBe("v2");
+      t.set(iso, "unversioned");
+      expect(t.nearestAncestorWithValue(child)?.[1]).toBe("unversioned");
+      expect(values(t.ancestorsOf(child))).toEqual(["v2", "v1", "unversioned"]);
+    });
+  });
+
+  describe("delete", () => {
+    it("removes entries and prunes empty paths", () => {
+      const t = tree();
+      expect(t.delete(`${iso}/controls/5.1.2/guidance/g-1`)).toBe(true);
+      expect(t.delete(`${iso}/controls/5.1.2/guidance/g-1`)).toBe(false);
+      expect(t.size).toBe(6);
+      expect(t.descendantsOf(`${iso}/controls/5.1.2`)).toEqual([]);
+    });
+
+    it("keeps paths with descendants", () => {
+      const t = tree();
+      expect(t.delete(iso)).toBe(true);
+      expect(t.has(iso)).toBe(false);
+      expect(t.descendantsOf(iso)).toHaveLength(3);
+    });
+
+    it("returns false for unknown and invalid KRNs", () => {
+      const t = tree();
+      expect(t.delete(`${iso}@v1`)).toBe(false);
+      expect(t.delete("//isms.kopexa.com/frameworks/x")).toBe(false);
+      expect(t.delete("invalid")).toBe(false);
+    });
+
+    it("clears the tree", () => {
+      const t = tree();
+      t.clear();
+      expect(t.size).toBe(0);
+      expect([...t]).toEqual([]);
+    });
+  });
+
+  it("iterates over all entries", () => {
+    expect(values([...tree()])).toEqual([
+      "iso",
+      "5.1.1",
+      "5.1.2",
+      "g-1",
+      "iso2022",
+      "2022-5.1",
+      "no-service",
+    ]);
+  });
+
+  it("handles wide trees", () => {
+    const t = new KRNTree<number>();
+    for (let i = 0; i < 100000; i++) {
+      t.set(`//kopexa.com/tenants/acme/controls/c-${i}`, i);
+    }
+    expect(t.childrenOf("//kopexa.com/tenants/acme")).toHaveLength(100000);
+    expect(t.descendantsOf("//kopexa.com/tenants/acme")).toHaveLength(100000);
+    expect(t.get("//kopexa.com/tenants/acme/controls/c-99999")).toBe(99999);
+  });
+
+  it("parses strings with the parse options", () => {
+    const t = new KRNTree(
+      [
+        ["//kopexa.test/tenants/acme", "acme"],
+        ["//kopexa.test/tenants/acme/workspaces/main", "main"],
+      ],
+      { parseOptions: { domain: "kopexa.test" } },
+    );
+    expect(t.get("//kopexa.test/tenants/acme")).toBe("acme");
+    expect(
+      values(t.ancestorsOf("//kopexa.test/tenants/acme/workspaces/main")),
+    ).toEqual(["acme"]);
+    expect(t.has("//kopexa.com/tenants/acme")).toBe(false);
+    expect(() => t.set("//kopexa.com/tenants/acme", "x")).toThrow(KRNError);
+  });
+});
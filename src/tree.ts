@@ -0,0 +1,285 @@
+/**
+ * KRN tree - a trie of KRNs by service and path segment for hierarchy queries.
+ *
+ * Queries walk the path of the given KRN, so they take time proportional to
+ * its depth (plus the number of results) instead of scanning all entries.
+ * Segments are matched exactly, so frameworks/iso27001 is not an ancestor of
+ * frameworks/iso27001-2022/controls/5.1.1 as a string prefix would be.
+ *
+ * Each node can hold values for several versions of its KRN. The hierarchy
+ * ignores versions: //kopexa.com/tenants/acme@v2 is an ancestor of
+ * //kopexa.com/tenants/acme/workspaces/main just like the unversioned KRN.
+ *
+ * Like KRNMap, adding an invalid KRN string throws, while queries with one
+ * find nothing.
+ */
+
+import { KRN, type KRNParseOptions } from "./krn.js";
+
+/** Options for creating a KRNTree */
+export interface KRNTreeOptions {
+  /** Options for parsing KRN strings, e.g. another base domain, like for KRN.parse */
+  parseOptions?: KRNParseOptions;
+}
+
+/** A node of the tree, one per path segment */
+interface Node<V> {
+  /** Child nodes by collection/resource-id */
+  children: Map<string, Node<V>>;
+  /** Entries of this path by version ("" for unversioned) */
+  entries: Map<string, [KRN, V]>;
+}
+
+function newNode<V>(): Node<V> {
+  return { children: new Map(), entries: new Map() };
+}
+
+/**
+ * Push the children of a node onto a depth-first stack, last child first
+ * so they are popped in insertion order. Avoids spreading, since nodes can
+ * have more children than a call takes arguments.
+ */
+function pushChildren<V>(stack: Node<V>[], node: Node<V>): void {
+  const start = stack.length;
+  for (const child of node.children.values()) {
+    stack.push(child);
+  }
+  // Reverse the pushed range in place
+  for (let i = start, j = stack.length - 1; i < j; i++, j--) {
+    const tmp = stack[i] as Node<V>;
+    stack[i] = stack[j] as Node<V>;
+    stack[j] = tmp;
+  }
+}
+
+/**
+ * KRNTree maps KRNs to values and answers hierarchy queries by walking
+ * their path segments.
+ */
+export class KRNTree<V> implements Iterable<[KRN, V]> {
+  /** Root nodes by full domain, which includes the service */
+  private readonly _roots = new Map<string, Node<V>>();
+  private readonly _parseOptions: KRNParseOptions;
+  private _size = 0;
+
+  /**
+   * Create a tree from entries keyed by KRNs or KRN strings.
+   * @throws {KRNError} if any string is not a valid KRN
+   */
+  constructor(
+    entries: Iterable<readonly [KRN | string, V]> = [],
+    options: KRNTreeOptions = {},
+  ) {
+    this._parseOptions = options.parseOptions ?? {};
+    for (const [k, v] of entries) {
+      this.set(k, v);
+    }
+  }
+
+  /** Get the number of entries in the tree. */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Set the value of a KRN.
+   * @throws {KRNError} if the string is not a valid KRN
+   */
+  set(key: KRN | string, value: V): this {
+    const k =
+      typeof key === "string" ? KRN.parse(key, this._parseOptions) : key;
+    let node: Node<V> = this._roots.get(k.fullDomain()) ?? newNode();
+    this._roots.set(k.fullDomain(), node);
+    for (const seg of k.segments()) {
+      const segKey = `${seg.collection}/${seg.resourceId}`;
+      let child: Node<V> | undefined = node.children.get(segKey);
+      if (!child) {
+        child = newNode();
+        node.children.set(segKey, child);
+      }
+      node = child;
+    }
+    if (!node.entries.has(k.version)) {
+      this._size++;
+    }
+    node.entries.set(k.version, [k, value]);
+    return this;
+  }
+
+  /** Get the value of a KRN, or undefined if not present. */
+  get(key: KRN | string): V | undefined {
+    const k = this.tryKRN(key);
+    return k ? this.find(k)?.entries.get(k.version)?.[1] : undefined;
+  }
+
+  /** Check if the tree has a value for a KRN. */
+  has(key: KRN | string): boolean {
+    const k = this.tryKRN(key);
+    return k !== null && this.find(k)?.entries.has(k.version) === true;
+  }
+
+  /** Remove the entry of a KRN. Returns true if it was present. */
+  delete(key: KRN | string): boolean {
+    const k = this.tryKRN(key);
+    if (!k) {
+      return false;
+    }
+    const root = this._roots.get(k.fullDomain());
+    if (!root) {
+      return false;
+    }
+
+    // Remember the path to prune nodes that become empty
+    const path: [Node<V>, string][] = [];
+    let node = root;
+    for (const seg of k.segments()) {
+      const segKey = `${seg.collection}/${seg.resourceId}`;
+      const child = node.children.get(segKey);
+      if (!child) {
+        return false;
+      }
+      path.push([node, segKey]);
+      node = child;
+    }
+    if (!node.entries.delete(k.version)) {
+      return false;
+    }
+    this._size--;
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const [parent, segKey] = path[i] as [Node<V>, string];
+      if (node.entries.size > 0 || node.children.size > 0) {
+        break;
+      }
+      parent.children.delete(segKey);
+      node = parent;
+    }
+    if (root.entries.size === 0 && root.children.size === 0) {
+      this._roots.delete(k.fullDomain());
+    }
+    return true;
+  }
+
+  /** Remove all entries from the tree. */
+  clear(): void {
+    this._roots.clear();
+    this._size = 0;
+  }
+
+  /**
+   * Get the entries below a KRN at any depth, in depth-first order.
+   * The KRN itself is not included.
+   */
+  descendantsOf(key: KRN | string): [KRN, V][] {
+    const k = this.tryKRN(key);
+    const node = k ? this.find(k) : undefined;
+    if (!node) {
+      return [];
+    }
+    const result: [KRN, V][] = [];
+    // Iterative depth-first walk, children in insertion order
+    const stack: Node<V>[] = [];
+    pushChildren(stack, node);
+    for (let next = stack.pop(); next; next = stack.pop()) {
+      for (const [entryKey, v] of next.entries.values()) {
+        result.push([entryKey, v]);
+      }
+      pushChildren(stack, next);
+    }
+    return result;
+  }
+
+  /** Get the entries directly below a KRN. */
+  childrenOf(key: KRN | string): [KRN, V][] {
+    const k = this.tryKRN(key);
+    const node = k ? this.find(k) : undefined;
+    if (!node) {
+      return [];
+    }
+    const result: [KRN, V][] = [];
+    for (const child of node.children.values()) {
+      for (const [entryKey, v] of child.entries.values()) {
+        result.push([entryKey, v]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the entries above a KRN, nearest first.
+   * The KRN itself is not included.
+   */
+  ancestorsOf(key: KRN | string): [KRN, V][] {
+    const result: [KRN, V][] = [];
+    for (const node of this.ancestorNodes(key)) {
+      for (const [entryKey, v] of node.entries.values()) {
+        result.push([entryKey, v]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the entry of the nearest ancestor of a KRN that has a value, or
+   * null if there is none. If that ancestor has values for several
+   * versions, the unversioned one is preferred, then the first one set.
+   * The KRN itself is not considered.
+   */
+  nearestAncestorWithValue(key: KRN | string): [KRN, V] | null {
+    for (const node of this.ancestorNodes(key)) {
+      const entry = node.entries.get("") ?? node.entries.values().next().value;
+      if (entry) {
+        return [entry[0], entry[1]];
+      }
+    }
+    return null;
+  }
+
+  /** Iterate over all entries in depth-first order. */
+  *entries(): IterableIterator<[KRN, V]> {
+    for (const root of this._roots.values()) {
+      const stack = [root];
+      for (let next = stack.pop(); next; next = stack.pop()) {
+        for (const [k, v] of next.entries.values()) {
+          yield [k, v];
+        }
+        pushChildren(stack, next);
+      }
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[KRN, V]> {
+    return this.entries();
+  }
+
+  /** Parse a KRN string, returning null if invalid. */
+  private tryKRN(k: KRN | string): KRN | null {
+    return typeof k === "string" ? KRN.tryParse(k, this._parseOptions) : k;
+  }
+
+  /** Find the node of a KRN's path. */
+  private find(k: KRN): Node<V> | undefined {
+    let node = this._roots.get(k.fullDomain());
+    for (const seg of k.segments()) {
+      node = node?.children.get(`${seg.collection}/${seg.resourceId}`);
+    }
+    return node;
+  }
+
+  /** Get the nodes above a KRN's path, nearest first. */
+  private ancestorNodes(key: KRN | string): Node<V>[] {
+    const k = this.tryKRN(key);
+    const segments = k ? k.segments() : [];
+    const nodes: Node<V>[] = [];
+    let node = k ? this._roots.get(k.fullDomain()) : undefined;
+    // Stop before the last segment, which is the KRN itself
+    for (const seg of segments.slice(0, -1)) {
+      node = node?.children.get(`${seg.collection}/${seg.resourceId}`);
+      if (!node) {
+        break;
+      }
+      nodes.push(node);
+    }
+    return nodes.reverse();
+  }
+}
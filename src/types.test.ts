@@ -0,0 +1,154 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+  assertKRN,
+  isKRNString,
+  KRN,
+  type KRNCollections,
+  KRNError,
+  KRNErrorCode,
+  type KRNString,
+  type Segment,
+} from "./index.js";
+
+describe("KRNCollections", () => {
+  it("extracts collections from KRN literals", () => {
+    expectTypeOf<
+      KRNCollections<"//kopexa.com/frameworks/iso27001">
+    >().toEqualTypeOf<"frameworks">();
+    expectTypeOf<
+      KRNCollections<"//catalog.kopexa.com/frameworks/iso27001/controls/5.1.1@v2">
+    >().toEqualTypeOf<"frameworks" | "controls">();
+    expectTypeOf<
+      KRNCollections<"//kopexa.com/tenants/a/workspaces/b/evidences/c">
+    >().toEqualTypeOf<"tenants" | "workspaces" | "evidences">();
+  });
+
+  it("falls back to string for non-literal or malformed input", () => {
+    expectTypeOf<KRNCollections<string>>().toEqualTypeOf<string>();
+    expectTypeOf<KRNCollections<"invalid">>().toEqualTypeOf<string>();
+    expectTypeOf<
+      KRNCollections<"//kopexa.com/frameworks">
+    >().toEqualTypeOf<string>();
+  });
+});
+
+describe("typed KRN.parse", () => {
+  it("tracks collections of parsed literals", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001/controls/5.1.1");
+    expectTypeOf(k).toEqualTypeOf<KRN<"frameworks" | "controls">>();
+    expect(k.resourceId("controls")).toBe("5.1.1");
+    // @ts-expect-error - "policies" is not a collection of this KRN
+    expect(() => k.resourceId("policies")).toThrow(KRNError);
+  });
+
+  it("accepts any collection for non-literal input", () => {
+    const input: string = "//kopexa.com/frameworks/iso27001";
+    const k = KRN.parse(input);
+    expectTypeOf(k).toEqualTypeOf<KRN<string>>();
+    expect(k.tryResourceId("policies")).toBeNull();
+  });
+
+  it("types segments by collection", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+    expectTypeOf(k.segments()).toEqualTypeOf<Segment<"frameworks">[]>();
+  });
+
+  it("extends collections for child KRNs", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001").child(
+      "controls",
+      "5.1.1",
+    );
+    expectTypeOf(k).toEqualTypeOf<KRN<"frameworks" | "controls">>();
+    expect(k.resourceId("controls")).toBe("5.1.1");
+  });
+
+  it("keeps collections across version and service changes", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001")
+      .withVersion("v1")
+      .withService("catalog")
+      .withoutVersion()
+      .withoutService();
+    expectTypeOf(k).toEqualTypeOf<KRN<"frameworks">>();
+  });
+
+  it("checks collections of withResourceId", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001/controls/5.1.1");
+    expectTypeOf(k.withResourceId("controls", "5.1.2")).toEqualTypeOf<
+      KRN<"frameworks" | "controls">
+    >();
+    // @ts-expect-error - "policies" is not a collection of this KRN
+    expect(() => k.withResourceId("policies", "p-1")).toThrow(KRNError);
+  });
+
+  it("is assignable to KRN", () => {
+    const k: KRN = KRN.parse("//kopexa.com/frameworks/iso27001");
+    expect(k.depth()).toBe(1);
+  });
+});
+
+describe("KRNString", () => {
+  it("is returned by toString", () => {
+    const s = KRN.parse("//kopexa.com/frameworks/iso27001").toString();
+    expectTypeOf(s).toEqualTypeOf<KRNString>();
+    expectTypeOf(s).toExtend<string>();
+  });
+
+  it("is not assignable from plain strings", () => {
+    // @ts-expect-error - plain strings are not branded
+    const s: KRNString = "//kopexa.com/frameworks/iso27001";
+    expect(s).toBeTypeOf("string");
+  });
+
+  it("is narrowed by KRN.isValid", () => {
+    const s: string = "//kopexa.com/frameworks/iso27001";
+    if (KRN.isValid(s)) {
+      expectTypeOf(s).toEqualTypeOf<KRNString>();
+    }
+  });
+});
+
+describe("isKRNString", () => {
+  it("accepts valid KRN strings", () => {
+    const value: unknown = "//kopexa.com/frameworks/iso27001";
+    expect(isKRNString(value)).toBe(true);
+    if (isKRNString(value)) {
+      expectTypeOf(value).toEqualTypeOf<KRNString>();
+    }
+  });
+
+  it("rejects invalid strings and non-strings", () => {
+    expect(isKRNString("//kopexa.com/frameworks")).toBe(false);
+    expect(isKRNString("")).toBe(false);
+    expect(isKRNString(42)).toBe(false);
+    expect(isKRNString(null)).toBe(false);
+    expect(isKRNString(KRN.parse("//kopexa.com/frameworks/x"))).toBe(false);
+  });
+});
+
+describe("assertKRN", () => {
+  it("narrows valid KRN strings", () => {
+    const value: unknown = "//kopexa.com/frameworks/iso27001";
+    assertKRN(value);
+    expectTypeOf(value).toEqualTypeOf<KRNString>();
+  });
+
+  it("throws the parse error for invalid strings", () => {
+    try {
+      assertKRN("//kopexa.com/frameworks/-bad");
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(KRNError);
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_RESOURCE_ID);
+    }
+  });
+
+  it("throws INVALID_KRN for non-strings", () => {
+    try {
+      assertKRN(42);
+      expect.fail("expected KRNError");
+    } catch (err) {
+      expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_KRN);
+      expect((err as KRNError).message).toBe("expected KRN string, got number");
+    }
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  type KRNIssue,
+  KRNSchemaRegistry,
+  krnSchema,
+  type StandardSchemaV1,
+} from "./index.js";
+
+function validate(
+  schema: StandardSchemaV1<string | KRN, KRN>,
+  value: unknown,
+): StandardSchemaV1.Result<KRN> {
+  const result = schema["~standard"].validate(value);
+  if (result instanceof Promise) {
+    throw new Error("expected synchronous validation");
+  }
+  return result;
+}
+
+function codes(result: StandardSchemaV1.Result<KRN>): string[] {
+  return (result.issues ?? []).map((issue) => (issue as KRNIssue).code);
+}
+
+describe("krnSchema", () => {
+  it("implements the Standard Schema props", () => {
+    const schema = krnSchema();
+    expect(schema["~standard"].version).toBe(1);
+    expect(schema["~standard"].vendor).toBe("@kopexa/krn");
+    expectTypeOf(schema).toExtend<StandardSchemaV1<string | KRN, KRN>>();
+  });
+
+  it("parses valid KRN strings into KRN instances", () => {
+    const result = validate(krnSchema(), "//kopexa.com/frameworks/iso27001");
+    expect(result.issues).toBeUndefined();
+    if (!result.issues) {
+      expect(result.value).toBeInstanceOf(KRN);
+      expect(result.value.basename()).toBe("iso27001");
+    }
+  });
+
+  it("accepts KRN instances", () => {
+    const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+    const result = validate(krnSchema(), k);
+    expect(result.issues).toBeUndefined();
+    expect(!result.issues && result.value).toBe(k);
+  });
+
+  it("maps parse errors to issues with error codes", () => {
+    const result = validate(krnSchema(), "//kopexa.com/frameworks/-bad");
+    expect(result.issues).toEqual([
+      {
+        code: KRNErrorCode.INVALID_RESOURCE_ID,
+        message: "invalid resource ID: -bad",
+      },
+    ]);
+  });
+
+  it("rejects non-string values", () => {
+    expect(validate(krnSchema(), 42).issues).toEqual([
+      {
+        code: KRNErrorCode.INVALID_KRN,
+        message: "expected KRN string, got number",
+      },
+    ]);
+    expect(validate(krnSchema(), null).issues?.[0]?.message).toBe(
+      "expected KRN string, got null",
+    );
+  });
+
+  describe("service", () => {
+    it("restricts to a single service", () => {
+      const schema = krnSchema({ service: "catalog" });
+      expect(
+        codes(validate(schema, "//catalog.kopexa.com/frameworks/iso27001")),
+      ).toEqual([]);
+      const result = validate(schema, "//kopexa.com/frameworks/iso27001");
+      expect(codes(result)).toEqual([KRNErrorCode.INVALID_DOMAIN]);
+      expect(result.issues?.[0]?.message).toBe(
+        "expected service catalog, got (none)",
+      );
+    });
+
+    it("restricts to several services including none", () => {
+      const schema = krnSchema({ service: ["catalog", ""] });
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x"))).toEqual([]);
+      expect(codes(validate(schema, "//isms.kopexa.com/frameworks/x"))).toEqual(
+        [KRNErrorCode.INVALID_DOMAIN],
+      );
+    });
+  });
+
+  describe("collections", () => {
+    const schema = krnSchema({ collections: ["frameworks", "controls"] });
+
+    it("requires the exact collections", () => {
+      expect(
+        codes(
+          validate(schema, "//kopexa.com/frameworks/iso27001/controls/5.1.1"),
+        ),
+      ).toEqual([]);
+      const result = validate(schema, "//kopexa.com/frameworks/iso27001");
+      expect(codes(result)).toEqual([KRNErrorCode.INVALID_HIERARCHY]);
+      expect(result.issues?.[0]?.message).toBe(
+        "expected collections frameworks/controls, got frameworks",
+      );
+    });
+  });
+
+  describe("versioned", () => {
+    it("allows any version by default", () => {
+      const schema = krnSchema();
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x"))).toEqual([]);
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x@v1"))).toEqual(
+        [],
+      );
+    });
+
+    it("requires a version", () => {
+      const schema = krnSchema({ versioned: "required" });
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x"))).toEqual([
+        KRNErrorCode.INVALID_VERSION,
+      ]);
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x@v1"))).toEqual(
+        [],
+      );
+    });
+
+    it("forbids a version", () => {
+      const schema = krnSchema({ versioned: "forbidden" });
+      expect(codes(validate(schema, "//kopexa.com/frameworks/x@v1"))).toEqual([
+        KRNErrorCode.INVALID_VERSION,
+      ]);
+    });
+  });
+
+  it("checks hierarchy schemas", () => {
+    const schemas = new KRNSchemaRegistry().register("catalog", {
+      roots: ["frameworks"],
+    });
+    const schema = krnSchema({ schemas });
+    expect(
+      codes(validate(schema, "//catalog.kopexa.com/frameworks/iso27001")),
+    ).toEqual([]);
+    expect(codes(validate(schema, "//catalog.kopexa.com/controls/x"))).toEqual([
+      KRNErrorCode.INVALID_HIERARCHY,
+    ]);
+  });
+
+  it("reports all failing constraints", () => {
+    const schema = krnSchema({
+      service: "catalog",
+      collections: ["frameworks"],
+      versioned: "required",
+    });
+    expect(codes(validate(schema, "//kopexa.com/controls/x"))).toEqual([
+      KRNErrorCode.INVALID_DOMAIN,
+      KRNErrorCode.INVALID_HIERARCHY,
+      KRNErrorCode.INVALID_VERSION,
+    ]);
+  });
+
+  describe("parse", () => {
+    const schema = krnSchema({ service: "catalog" });
+
+    it("returns the KRN", () => {
+      expect(schema.parse("//catalog.kopexa.com/frameworks/x").basename()).toBe(
+        "x",
+      );
+    });
+
+    it("throws a KRNError with the code of the first issue", () => {
+      try {
+        schema.parse("//kopexa.com/frameworks/x");
+        expect.fail("expected KRNError");
+      } catch (err) {
+        expect(err).toBeInstanceOf(KRNError);
+        expect((err as KRNError).code).toBe(KRNErrorCode.INVALID_DOMAIN);
+      }
+    });
+  });
+
+  describe("parseOptions", () => {
+    const schema = krnSchema({ parseOptions: { domain: "kopexa.test" } });
+
+    it("parses KRNs under another domain", () => {
+      const result = validate(schema, "//kopexa.test/frameworks/iso27001");
+      expect(result.issues).toBeUndefined();
+      if (!result.issues) {
+        expect(result.value.domain).toBe("kopexa.test");
+      }
+      expect(
+        codes(validate(schema, "//kopexa.com/frameworks/iso27001")),
+      ).toEqual([KRNErrorCode.INVALID_DOMAIN]);
+    });
+
+    it("rejects KRN instances of other domains", () => {
+      const k = KRN.parse("//kopexa.com/frameworks/iso27001");
+      expect(validate(schema, k).issues).toEqual([
+        {
+          code: KRNErrorCode.INVALID_DOMAIN,
+          message: "expected domain kopexa.test, got kopexa.com",
+        },
+      ]);
+      expect(codes(validate(krnSchema(), k))).toEqual([]);
+    });
+
+    it("rejects invalid domains", () => {
+      expect(() => krnSchema({ parseOptions: { domain: "Kopexa" } })).toThrow(
+        KRNError,
+      );
+    });
+  });
+});
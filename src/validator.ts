@@ -0,0 +1,211 @@
+/**
+ * KRN validators implementing the Standard Schema interface
+ * (https://standardschema.dev), usable with Zod, Valibot, ArkType and
+ * other libraries that accept Standard Schema validators.
+ *
+ * Example:
+ *   const ControlRef = krnSchema({
+ *     service: "catalog",
+ *     collections: ["frameworks", "controls"],
+ *     versioned: "optional",
+ *   });
+ *
+ *   const result = ControlRef["~standard"].validate(body.control);
+ *   if (result.issues) { ... } else { result.value; // KRN }
+ */
+
+import {
+  baseDomain,
+  KRN,
+  KRNError,
+  KRNErrorCode,
+  type KRNParseOptions,
+} from "./krn.js";
+import type { KRNSchemaRegistry } from "./schema.js";
+
+/**
+ * The Standard Schema v1 interface, copied as recommended by the spec so
+ * that no runtime dependency is needed.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+/** A validation issue carrying the KRN error code */
+export interface KRNIssue extends StandardSchemaV1.Issue {
+  readonly code: KRNErrorCode;
+}
+
+/** Options for krnSchema */
+export interface KRNSchemaOptions {
+  /** Allowed service(s); use "" for KRNs without service. Any if unset. */
+  service?: string | string[];
+  /** Exact collections of the KRN path, in order. Any if unset. */
+  collections?: string[];
+  /** Whether the KRN must, may or must not have a version. Defaults to "optional". */
+  versioned?: "required" | "optional" | "forbidden";
+  /** Hierarchy schemas the KRN must conform to */
+  schemas?: KRNSchemaRegistry;
+  /**
+   * Options for parsing KRN strings, e.g. another base domain, like for
+   * KRN.parse. KRN instances must have the same base domain.
+   */
+  parseOptions?: KRNParseOptions;
+}
+
+/** A Standard Schema validator parsing strings into KRNs */
+export interface KRNValidator extends StandardSchemaV1<string | KRN, KRN> {
+  /**
+   * Validate a value and return the KRN.
+   * @throws {KRNError} with the code of the first issue
+   */
+  parse(value: unknown): KRN;
+}
+
+/** Vendor name reported in the Standard Schema props */
+const VENDOR = "@kopexa/krn";
+
+/**
+ * Check a parsed KRN against the options and base domain, returning all
+ * issues.
+ */
+function check(k: KRN, options: KRNSchemaOptions, domain: string): KRNIssue[] {
+  const issues: KRNIssue[] = [];
+
+  if (k.domain !== domain) {
+    issues.push({
+      code: KRNErrorCode.INVALID_DOMAIN,
+      message: `expected domain ${domain}, got ${k.domain}`,
+    });
+  }
+
+  if (options.service !== undefined) {
+    const services =
+      typeof options.service === "string" ? [options.service] : options.service;
+    if (!services.includes(k.service)) {
+      issues.push({
+        code: KRNErrorCode.INVALID_DOMAIN,
+        message: `expected service ${services.map((s) => s || "(none)").join(" or ")}, got ${k.service || "(none)"}`,
+      });
+    }
+  }
+
+  if (options.collections) {
+    const actual = k.segments().map((seg) => seg.collection);
+    if (actual.join("/") !== options.collections.join("/")) {
+      issues.push({
+        code: KRNErrorCode.INVALID_HIERARCHY,
+        message: `expected collections ${options.collections.join("/")}, got ${actual.join("/")}`,
+      });
+    }
+  }
+
+  const versioned = options.versioned ?? "optional";
+  if (versioned === "required" && !k.hasVersion()) {
+    issues.push({
+      code: KRNErrorCode.INVALID_VERSION,
+      message: "version is required",
+    });
+  }
+  if (versioned === "forbidden" && k.hasVersion()) {
+    issues.push({
+      code: KRNErrorCode.INVALID_VERSION,
+      message: `version is not allowed: ${k.version}`,
+    });
+  }
+
+  if (options.schemas) {
+    try {
+      options.schemas.validate(k);
+    } catch (err) {
+      if (!(err instanceof KRNError)) {
+        throw err;
+      }
+      issues.push({ code: err.code, message: err.message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Create a Standard Schema validator that parses KRN strings (or checks
+ * KRN instances) and applies the given constraints.
+ * @throws {KRNError} if the base domain of the parse options is invalid
+ */
+export function krnSchema(options: KRNSchemaOptions = {}): KRNValidator {
+  const domain = baseDomain(options.parseOptions);
+  const validate = (value: unknown): StandardSchemaV1.Result<KRN> => {
+    let k: KRN;
+    if (value instanceof KRN) {
+      k = value;
+    } else if (typeof value === "string") {
+      try {
+        k = KRN.parse(value, options.parseOptions);
+      } catch (err) {
+        if (err instanceof KRNError) {
+          const issue: KRNIssue = { code: err.code, message: err.message };
+          return { issues: [issue] };
+        }
+        throw err;
+      }
+    } else {
+      const issue: KRNIssue = {
+        code: KRNErrorCode.INVALID_KRN,
+        message: `expected KRN string, got ${value === null ? "null" : typeof value}`,
+      };
+      return { issues: [issue] };
+    }
+
+    const issues = check(k, options, domain);
+    return issues.length > 0 ? { issues } : { value: k };
+  };
+
+  return {
+    "~standard": { version: 1, vendor: VENDOR, validate },
+    parse(value: unknown): KRN {
+      const result = validate(value);
+      if (result.issues) {
+        const issue = result.issues[0] as KRNIssue;
+        throw new KRNError(issue.code, issue.message);
+      }
+      return result.value;
+    },
+  };
+}